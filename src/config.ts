@@ -6,19 +6,83 @@
 import type { NapCatPluginContext, PluginConfigSchema } from 'napcat-types/napcat-onebot/network/plugin/types';
 import type { PluginConfig } from './types';
 
+/** 默认连接名称（由 gscoreUrl/gscoreToken 构成） */
+export const DEFAULT_CONNECTION_NAME = 'default';
+
 /** 默认配置 */
 export const DEFAULT_CONFIG: PluginConfig = {
     enabled: true,
     commandPrefix: '#早柚',
     masterQQ: '',
+    pmMaster: 0,
+    pmOwner: 2,
+    pmAdmin: 3,
+    pmMember: 6,
+    userPmOverrides: {},
+    groupMode: 'optout',
+    unapprovedGroupAction: 'none',
+    unapprovedGroupNotice: '本群尚未开通早柚核心，请联系机器人主人开通',
     groupConfigs: {},
     gscoreUrl: 'ws://localhost:8765',
     gscoreToken: '',
     gscoreEnable: true,
     reconnectInterval: 5000,
+    reconnectMaxDelay: 30000,
+    reconnectJitter: 0.2,
     maxReconnectAttempts: 10,
+    circuitProbeInterval: 300000,
+    heartbeatInterval: 30000,
+    heartbeatMaxMissed: 3,
+    offlineQueueSize: 50,
+    offlineQueueMaxAge: 60000,
+    gscoreConnections: [],
+    defaultConnection: '',
+    privateConnection: '',
     blacklist: [],
     customImageSummary: '',
+    fileUploadEnable: true,
+    fileMaxSize: 20,
+    fileDownloadTimeout: 30,
+    triggerPrefixes: '',
+    triggerRegex: '',
+    requireMention: false,
+    rateLimitEnable: false,
+    rateLimitUser: 10,
+    rateLimitGroup: 30,
+    rateLimitGlobal: 120,
+    rateLimitNotice: '⏳ 操作太频繁啦，请稍后再试',
+    rateLimitNoticeInterval: 60,
+    sendRateLimit: 2,
+    sendTargetInterval: 1000,
+    sendMaxRetries: 2,
+    sendRetryDelay: 2000,
+    sendMaxChars: 2000,
+    sendMaxImages: 10,
+    oversizeMode: 'split',
+    replyQuoteMode: 'off',
+    forwardNodeUserId: '',
+    forwardNodeNickname: '',
+    forwardExpandDepth: 2,
+    mediaInlineMode: 'off',
+    mediaInlineMaxSize: 10,
+    mediaInlineMaxCount: 5,
+    markdownTemplates: {},
+    buttonMenuEnable: true,
+    buttonMenuTimeout: 120,
+    forwardPoke: false,
+    forwardGroupIncrease: false,
+    forwardGroupDecrease: false,
+    forwardFriendAdd: false,
+    forwardFriendRequest: false,
+    forwardGroupRequest: false,
+    alertEnable: false,
+    alertGroupId: '',
+    alertDisconnectGrace: 60,
+    alertLogLevel: 'error',
+    alertQuietPeriod: 600,
+    statsEnable: true,
+    statsRetentionDays: 30,
+    latencyReplyTimeout: 60,
 };
 
 /**
@@ -50,14 +114,119 @@ export function buildConfigSchema(ctx: NapCatPluginContext): PluginConfigSchema
         ctx.NapCatConfig.text('gscoreUrl', '连接地址', 'ws://localhost:8765', 'GScore WebSocket 地址 (ws://...)'),
         ctx.NapCatConfig.html('<div style="font-size: 12px; color: #f59e0b; margin-top: -5px; margin-bottom: 10px;">⚠️ Docker 环境下请勿使用 localhost/127.0.0.1，请使用宿主机 IP ，双容器同自定义网络可填写容器名使用容器间DNS解析（默认的bridge网络不支持）</div>'),
         ctx.NapCatConfig.text('gscoreToken', '连接 Token', '', '连接鉴权 Token (选填)'),
-        ctx.NapCatConfig.number('reconnectInterval', '重连间隔 (ms)', 5000, '断线重连的时间间隔，单位毫秒'),
-        ctx.NapCatConfig.number('maxReconnectAttempts', '最大重连次数', 10, '最大尝试重连次数，设置为0则无限重连'),
+        ctx.NapCatConfig.number('reconnectInterval', '重连间隔 (ms)', 5000, '断线重连的基础间隔，每次失败后翻倍，单位毫秒'),
+        ctx.NapCatConfig.number('reconnectMaxDelay', '重连间隔上限 (ms)', 30000, '指数退避后重连间隔的最大值，单位毫秒'),
+        ctx.NapCatConfig.number('reconnectJitter', '重连抖动比例', 0.2, '在重连间隔上叠加的随机抖动比例 (0~1)，避免多个实例同时重连'),
+        ctx.NapCatConfig.number('maxReconnectAttempts', '最大重连次数', 10, '连续重连失败达到此次数后进入熔断状态，改为低频探测，设置为0则不熔断'),
+        ctx.NapCatConfig.number('circuitProbeInterval', '熔断探测间隔 (ms)', 300000, '熔断状态下尝试重新连接的间隔，单位毫秒'),
+        ctx.NapCatConfig.number('heartbeatInterval', '心跳间隔 (ms)', 30000, '定时发送 ping 检测连接是否存活，设置为0则关闭'),
+        ctx.NapCatConfig.number('heartbeatMaxMissed', '心跳超时次数', 3, '连续多少次未收到 pong 判定连接失效并重连'),
+        ctx.NapCatConfig.number('offlineQueueSize', '断线缓存条数', 50, '断线期间缓存的消息条数，重连后按顺序补发，设置为0则不缓存'),
+        ctx.NapCatConfig.number('offlineQueueMaxAge', '断线缓存时长 (ms)', 60000, '缓存消息的最长保留时间，超时的消息重连后不再补发'),
+        // 群开通配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">群开通模式</div>'),
+        ctx.NapCatConfig.select('groupMode', '群默认模式', [
+            { label: '默认开启（可单独关闭）', value: 'optout' },
+            { label: '白名单（需主人开通）', value: 'optin' },
+        ], 'optout', '白名单模式下新群不转发消息，直到主人在群内发送 "#早柚群开启" 或私聊发送 "#早柚群开启 群号"'),
+        ctx.NapCatConfig.select('unapprovedGroupAction', '未开通群处理', [
+            { label: '忽略', value: 'none' },
+            { label: '发送一次提示', value: 'notice' },
+            { label: '提示后退群', value: 'leave' },
+        ], 'none', '白名单模式下收到未开通群的消息时的处理方式'),
+        ctx.NapCatConfig.text('unapprovedGroupNotice', '未开通提示', '本群尚未开通早柚核心，请联系机器人主人开通', '发送给未开通群的提示，留空则不提示'),
+        // 多连接配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">多连接路由</div>'),
+        ctx.NapCatConfig.html('<div style="font-size: 12px; color: #888; margin-bottom: 10px;">上方地址为名称 default 的默认连接。额外连接请在配置文件的 gscoreConnections 中添加（name/url/token/enabled），群内可使用 "#早柚群连接 名称" 切换本群使用的连接</div>'),
+        ctx.NapCatConfig.text('defaultConnection', '群默认连接', '', '群消息默认转发到的连接名称，留空使用 default'),
+        ctx.NapCatConfig.text('privateConnection', '私聊连接', '', '私聊消息转发到的连接名称，留空与群默认连接相同'),
         // 命令配置
         ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">命令配置</div>'),
         ctx.NapCatConfig.text('commandPrefix', '命令前缀', '#早柚', '群内快捷命令前缀，例如设置为 "#早柚" 则命令为 "#早柚群开启"'),
         ctx.NapCatConfig.text('masterQQ', '主人QQ', '', '设置主人QQ，留空保留默认权限（群主/管理员），填写后仅该QQ可以使用群内配置命令。多个QQ请用英文逗号分隔'),
+        // 触发过滤配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">触发过滤</div>'),
+        ctx.NapCatConfig.text('triggerPrefixes', '触发前缀', '', '仅转发以这些前缀开头的消息，多个请用英文逗号分隔，例如 "#,/,ys"。前缀和正则都留空则转发所有消息'),
+        ctx.NapCatConfig.text('triggerRegex', '触发正则', '', '匹配此正则的消息也会转发，例如 "^(ys|sr|zzz)"'),
+        ctx.NapCatConfig.boolean('requireMention', '必须@机器人', false, '群聊中仅转发 @机器人 的消息，转发时会去掉对机器人的 @'),
+        ctx.NapCatConfig.html('<div style="font-size: 12px; color: #888; margin-bottom: 10px;">可在配置文件 groupConfigs.群号 中使用 triggerPrefixes/triggerRegex/requireMention 按群单独设置</div>'),
+        // 限流配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">转发限流</div>'),
+        ctx.NapCatConfig.boolean('rateLimitEnable', '启用限流', false, '限制转发到 GScore 的消息频率，主人不受限制'),
+        ctx.NapCatConfig.number('rateLimitUser', '单用户每分钟', 10, '每个用户每分钟最多转发条数，设置为0则不限制'),
+        ctx.NapCatConfig.number('rateLimitGroup', '单群每分钟', 30, '每个群每分钟最多转发条数，设置为0则不限制'),
+        ctx.NapCatConfig.number('rateLimitGlobal', '全局每分钟', 120, '所有会话合计每分钟最多转发条数，设置为0则不限制'),
+        ctx.NapCatConfig.text('rateLimitNotice', '冷却提示', '⏳ 操作太频繁啦，请稍后再试', '触发限流时回复的提示，留空则不提示'),
+        ctx.NapCatConfig.number('rateLimitNoticeInterval', '提示间隔 (秒)', 60, '同一用户在同一会话内冷却提示的最小间隔'),
+        // 发送节流配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">发送节流</div>'),
+        ctx.NapCatConfig.number('sendRateLimit', '每秒发送上限', 2, 'GScore 回复全局每秒最多发送条数，防止短时间大量发送触发风控，设置为0则不限制'),
+        ctx.NapCatConfig.number('sendTargetInterval', '同目标发送间隔 (ms)', 1000, '同一个群/好友两次发送之间的最小间隔'),
+        ctx.NapCatConfig.number('sendMaxRetries', '失败重试次数', 2, '发送失败后的最大重试次数'),
+        ctx.NapCatConfig.number('sendRetryDelay', '重试等待 (ms)', 2000, '首次重试前的等待时间，之后每次翻倍'),
+        ctx.NapCatConfig.number('sendMaxChars', '单条最大字数', 2000, 'GScore 回复超过此字数时在换行处拆分，避免被 QQ 拒绝或截断，设置为0则不限制'),
+        ctx.NapCatConfig.number('sendMaxImages', '单条最大图片数', 10, 'GScore 回复的图片超过此数量时拆分，设置为0则不限制'),
+        ctx.NapCatConfig.select('oversizeMode', '超长消息处理', [
+            { label: '拆分为多条', value: 'split' },
+            { label: '折叠为合并转发', value: 'forward' },
+        ], 'split', '回复超过单条上限时拆分为多条依次发送，或折叠为一条合并转发'),
+        // 权限映射配置
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">GScore 权限映射</div>'),
+        ctx.NapCatConfig.html('<div style="font-size: 12px; color: #888; margin-bottom: 10px;">转发给 GScore 的 user_pm，数值越小权限越高。单个用户可通过 "#早柚权限" 命令单独设置</div>'),
+        ctx.NapCatConfig.number('pmMaster', '主人权限等级', 0, '主人QQ发送给 GScore 的 user_pm，0 为 GScore 主人等级'),
+        ctx.NapCatConfig.number('pmOwner', '群主权限等级', 2, '群主发送给 GScore 的 user_pm'),
+        ctx.NapCatConfig.number('pmAdmin', '管理员权限等级', 3, '群管理员发送给 GScore 的 user_pm'),
+        ctx.NapCatConfig.number('pmMember', '普通用户权限等级', 6, '其他用户发送给 GScore 的 user_pm'),
         // 新增：图片外显配置
         ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">消息配置</div>'),
         ctx.NapCatConfig.text('customImageSummary', '图片外显', '', '用于设置图片消息的summary，多个外显文本请用英文逗号隔开，发送时将随机选择一个'),
+        ctx.NapCatConfig.select('replyQuoteMode', '自动引用', [
+            { label: '关闭', value: 'off' },
+            { label: '引用触发消息', value: 'reply' },
+            { label: '@触发者', value: 'at' },
+            { label: '引用并@', value: 'both' },
+        ], 'off', 'GScore 回复未包含引用/@ 时自动补上，便于在群聊中分辨回复对象，可用 "#早柚群引用" 按群设置'),
+        ctx.NapCatConfig.text('forwardNodeUserId', '合并转发QQ', '', '合并转发消息中显示的发送者 QQ，留空使用机器人自身'),
+        ctx.NapCatConfig.text('forwardNodeNickname', '合并转发昵称', '', '合并转发消息中显示的发送者昵称，留空使用机器人昵称'),
+        ctx.NapCatConfig.number('forwardExpandDepth', '聊天记录展开层数', 2, '收到或引用合并转发（聊天记录）时展开为文本转发给 GScore 的最大嵌套层数，设置为0则只发送 [合并转发]'),
+        ctx.NapCatConfig.select('mediaInlineMode', '图片/语音转 base64', [
+            { label: '关闭', value: 'off' },
+            { label: '仅本地文件', value: 'auto' },
+            { label: '全部', value: 'always' },
+        ], 'off', '将收到的图片/语音读取后以 base64 发送给 GScore。GScore 与 NapCat 不在同一主机/容器、无法访问图片地址时开启'),
+        ctx.NapCatConfig.number('mediaInlineMaxSize', '转 base64 大小上限 (MB)', 10, '超过此大小的图片/语音仍发送原地址，设置为0则不限制'),
+        ctx.NapCatConfig.number('mediaInlineMaxCount', '每条消息转 base64 数量上限', 5, '每条消息（含展开的聊天记录与引用）最多转换的图片/语音数，超出部分仍发送原地址，设置为0则不限制'),
+        ctx.NapCatConfig.html('<div style="font-size: 12px; color: #888; margin-bottom: 10px;">GScore 的 Markdown 消息会转为纯文本发送；template_markdown 的模板内容请在配置文件的 markdownTemplates 中按模板 ID 定义，参数写作 {{.参数名}}</div>'),
+        ctx.NapCatConfig.boolean('buttonMenuEnable', '按钮菜单', true, '将 GScore 的按钮渲染为带序号的文字菜单，回复序号即可执行'),
+        ctx.NapCatConfig.number('buttonMenuTimeout', '菜单有效时长 (秒)', 120, '发送菜单后多长时间内回复序号有效，仅对触发该回复的用户生效'),
+        ctx.NapCatConfig.boolean('fileUploadEnable', '上传文件', true, '将 GScore 发送的文件（如抽卡记录导出）上传为群文件/私聊文件，关闭则仅发送文件名'),
+        ctx.NapCatConfig.number('fileMaxSize', '文件大小上限 (MB)', 20, '超过此大小的文件不上传，改为发送文字提示，设置为0则不限制'),
+        ctx.NapCatConfig.number('fileDownloadTimeout', '下载超时 (秒)', 30, '下载 GScore 文件（link:// 地址）及转 base64 的图片/语音的超时时间，超时后改为发送文字提示或原地址，设置为0则不限制'),
+        // 事件转发
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">事件转发</div>'),
+        ctx.NapCatConfig.html('<div style="font-size: 12px; color: #888; margin-bottom: 10px;">将通知/请求事件以关键词文本转发给 GScore（如戳一戳 → "戳一戳"），同样受群开关与黑名单限制</div>'),
+        ctx.NapCatConfig.boolean('forwardPoke', '戳一戳', false, '转发戳机器人的戳一戳，关键词 "戳一戳"'),
+        ctx.NapCatConfig.boolean('forwardGroupIncrease', '群成员增加', false, '转发新成员入群通知，关键词 "群成员增加"，可用于入群欢迎'),
+        ctx.NapCatConfig.boolean('forwardGroupDecrease', '群成员减少', false, '转发成员退群/被踢通知，关键词 "群成员减少"'),
+        ctx.NapCatConfig.boolean('forwardFriendAdd', '好友添加', false, '转发新增好友通知，关键词 "好友添加"'),
+        ctx.NapCatConfig.boolean('forwardFriendRequest', '好友申请', false, '转发好友申请，关键词 "好友申请"'),
+        ctx.NapCatConfig.boolean('forwardGroupRequest', '加群申请', false, '转发加群申请与入群邀请，关键词 "加群申请"'),
+        // 告警通知
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">告警通知</div>'),
+        ctx.NapCatConfig.boolean('alertEnable', '启用告警', false, '连接断开、恢复、重连次数耗尽以及 GScore 报错时通知主人'),
+        ctx.NapCatConfig.text('alertGroupId', '告警群', '', '告警发送到的运维群号，留空则私聊所有主人QQ'),
+        ctx.NapCatConfig.number('alertDisconnectGrace', '断线宽限期 (秒)', 60, '连接断开超过此时间仍未恢复才告警，避免短暂波动打扰'),
+        ctx.NapCatConfig.select('alertLogLevel', 'GScore 日志告警级别', [
+            { label: '关闭', value: 'off' },
+            { label: 'INFO 及以上', value: 'info' },
+            { label: 'WARNING 及以上', value: 'warning' },
+            { label: 'ERROR', value: 'error' },
+        ], 'error', 'GScore 发来的日志达到此级别时告警'),
+        ctx.NapCatConfig.number('alertQuietPeriod', '静默期 (秒)', 600, '同一告警在静默期内只发送一次，重复次数在下次告警时附带'),
+        // 使用统计
+        ctx.NapCatConfig.html('<div style="margin: 20px 0 10px 0; font-weight: bold; border-bottom: 1px solid #ddd; padding-bottom: 5px;">使用统计</div>'),
+        ctx.NapCatConfig.boolean('statsEnable', '记录统计', true, '按天统计转发、回复、发送失败次数及活跃群/用户/命令，可用 "#早柚统计" 查看'),
+        ctx.NapCatConfig.number('statsRetentionDays', '保留天数', 30, '统计数据保存在配置文件同目录的 stats.json 中，超过此天数的数据自动删除'),
+        ctx.NapCatConfig.number('latencyReplyTimeout', '回复超时 (秒)', 60, '转发后超过此时间未收到 GScore 回复记为超时，显示在状态中，设置为0则不检查'),
     );
 }
@@ -0,0 +1,124 @@
+/**
+ * 转发消息上下文
+ *
+ * 记录转发到 GScore 的消息 msg_id 与发送者的对应关系（短期保存），
+ * GScore 回复时携带原 msg_id，据此找回触发回复的用户与会话。
+ * 同时记录临时会话的来源群与子频道所属的频道，GScore 主动推送（无 msg_id）时也能找到发送途径。
+ *
+ * 使用方法：
+ *   import { messageContext } from '../core/message-context';
+ *   messageContext.remember({ msgId, userId, ... });
+ *   messageContext.get(msgSend.msg_id)?.userId;
+ */
+
+/** 上下文保留时长（毫秒） */
+const CONTEXT_TTL = 10 * 60 * 1000;
+/** 最多保留的上下文条数 */
+const MAX_CONTEXTS = 5000;
+
+/**
+ * 单条转发消息的上下文
+ */
+export interface ForwardedMessageContext {
+    /** 转发时使用的 msg_id（即 QQ 消息 ID） */
+    msgId: string;
+    /** 发送者 QQ */
+    userId: string;
+    /** 群号（频道消息为子频道 ID），私聊时为 undefined */
+    groupId?: string;
+    /** 群临时会话的来源群号 */
+    tempGroupId?: string;
+    /** 频道消息所属的频道（guild）ID */
+    guildId?: string;
+    /** 转发时间戳 */
+    forwardedAt: number;
+    /** 消息的第一个词，用于按命令统计 */
+    command?: string;
+}
+
+/**
+ * 写入 Map 并淘汰最早的记录，保持不超过 MAX_CONTEXTS 条
+ */
+function setBounded(map: Map<string, string>, key: string, value: string): void {
+    map.delete(key);
+    map.set(key, value);
+    if (map.size > MAX_CONTEXTS) map.delete(map.keys().next().value!);
+}
+
+class MessageContextStore {
+    /** Map 按插入顺序迭代，最早的记录在最前 */
+    private contexts: Map<string, ForwardedMessageContext> = new Map();
+    /** 临时会话用户 QQ → 来源群号 */
+    private tempSources: Map<string, string> = new Map();
+    /** 子频道 ID → 频道 ID */
+    private channelGuilds: Map<string, string> = new Map();
+
+    /**
+     * 记录一条转发消息
+     */
+    remember(context: ForwardedMessageContext): void {
+        if (!context.msgId) return;
+        this.contexts.delete(context.msgId);
+        this.contexts.set(context.msgId, context);
+        this.prune();
+
+        if (context.tempGroupId) {
+            setBounded(this.tempSources, context.userId, context.tempGroupId);
+        } else if (!context.groupId) {
+            // 用户改为好友私聊后不再走临时会话
+            this.tempSources.delete(context.userId);
+        }
+        if (context.guildId && context.groupId) {
+            setBounded(this.channelGuilds, context.groupId, context.guildId);
+        }
+    }
+
+    /**
+     * 根据 msg_id 获取上下文（已过期则返回 undefined）
+     */
+    get(msgId: string | null | undefined): ForwardedMessageContext | undefined {
+        if (!msgId) return undefined;
+        const context = this.contexts.get(msgId);
+        if (!context) return undefined;
+        if (Date.now() - context.forwardedAt > CONTEXT_TTL) {
+            this.contexts.delete(msgId);
+            return undefined;
+        }
+        return context;
+    }
+
+    /**
+     * 获取用户最近一次临时会话的来源群号
+     */
+    getTempSource(userId: string): string | undefined {
+        return this.tempSources.get(userId);
+    }
+
+    /**
+     * 获取子频道所属的频道 ID
+     */
+    getChannelGuild(channelId: string): string | undefined {
+        return this.channelGuilds.get(channelId);
+    }
+
+    /** 清空所有上下文 */
+    clear(): void {
+        this.contexts.clear();
+        this.tempSources.clear();
+        this.channelGuilds.clear();
+    }
+
+    /**
+     * 清理过期与超出数量上限的记录
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [msgId, context] of this.contexts) {
+            if (this.contexts.size <= MAX_CONTEXTS && now - context.forwardedAt <= CONTEXT_TTL) break;
+            this.contexts.delete(msgId);
+        }
+    }
+}
+
+/** 导出全局单例 */
+export const messageContext = new MessageContextStore();
@@ -13,8 +13,8 @@
 import fs from 'fs';
 import path from 'path';
 import type { NapCatPluginContext, PluginLogger } from 'napcat-types/napcat-onebot/network/plugin/types';
-import { DEFAULT_CONFIG } from '../config';
-import type { PluginConfig, GroupConfig } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_CONNECTION_NAME } from '../config';
+import type { PluginConfig, GroupConfig, GScoreConnectionConfig, ReplyQuoteMode, OversizeMode, MediaInlineMode, AlertLogLevel, GroupMode, UnapprovedGroupAction, BlacklistEntry } from '../types';
 
 // ==================== 配置清洗工具 ====================
 
@@ -22,28 +22,189 @@ function isObject(v: unknown): v is Record<string, unknown> {
     return v !== null && typeof v === 'object' && !Array.isArray(v);
 }
 
+const REPLY_QUOTE_MODES: ReplyQuoteMode[] = ['off', 'reply', 'at', 'both'];
+
+function isReplyQuoteMode(v: unknown): v is ReplyQuoteMode {
+    return REPLY_QUOTE_MODES.includes(v as ReplyQuoteMode);
+}
+
+function isGroupMode(v: unknown): v is GroupMode {
+    return v === 'optout' || v === 'optin';
+}
+
+function isOversizeMode(v: unknown): v is OversizeMode {
+    return v === 'split' || v === 'forward';
+}
+
+function isMediaInlineMode(v: unknown): v is MediaInlineMode {
+    return v === 'off' || v === 'auto' || v === 'always';
+}
+
+function isAlertLogLevel(v: unknown): v is AlertLogLevel {
+    return v === 'off' || v === 'info' || v === 'warning' || v === 'error';
+}
+
+function isUnapprovedGroupAction(v: unknown): v is UnapprovedGroupAction {
+    return v === 'none' || v === 'notice' || v === 'leave';
+}
+
+/**
+ * 黑名单清洗：字符串视为永久拉黑，重复的 QQ 号只保留第一条
+ */
+function sanitizeBlacklist(raw: unknown[]): BlacklistEntry[] {
+    const entries: BlacklistEntry[] = [];
+    const seen = new Set<string>();
+    for (const item of raw) {
+        let entry: BlacklistEntry | null = null;
+        if (typeof item === 'string' && item.trim()) {
+            entry = { userId: item.trim(), createdAt: 0 };
+        } else if (isObject(item) && typeof item.userId === 'string' && item.userId.trim()) {
+            entry = {
+                userId: item.userId.trim(),
+                createdAt: typeof item.createdAt === 'number' ? item.createdAt : 0,
+            };
+            if (typeof item.operator === 'string') entry.operator = item.operator;
+            if (typeof item.reason === 'string') entry.reason = item.reason;
+            if (typeof item.expiresAt === 'number') entry.expiresAt = item.expiresAt;
+        }
+        if (entry && !seen.has(entry.userId)) {
+            seen.add(entry.userId);
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * 将毫秒格式化为 "x天x小时" 形式的时长
+ */
+export function formatDuration(ms: number): string {
+    const s = Math.floor(ms / 1000);
+    const m = Math.floor(s / 60);
+    const h = Math.floor(m / 60);
+    const d = Math.floor(h / 24);
+
+    if (d > 0) return `${d}天${h % 24}小时`;
+    if (h > 0) return `${h}小时${m % 60}分钟`;
+    if (m > 0) return `${m}分钟${s % 60}秒`;
+    return `${s}秒`;
+}
+
 /**
  * 配置清洗函数
  * 确保从文件读取的配置符合预期类型，防止运行时错误
  */
 function sanitizeConfig(raw: unknown): PluginConfig {
-    if (!isObject(raw)) return { ...DEFAULT_CONFIG, groupConfigs: {} };
-
-    const out: PluginConfig = { ...DEFAULT_CONFIG, groupConfigs: {} };
+    // 容器类字段需要新建，避免修改时污染 DEFAULT_CONFIG
+    const out: PluginConfig = { ...DEFAULT_CONFIG, groupConfigs: {}, userPmOverrides: {}, blacklist: [], markdownTemplates: {} };
+    if (!isObject(raw)) return out;
 
     if (typeof raw.enabled === 'boolean') out.enabled = raw.enabled;
     if (typeof raw.commandPrefix === 'string') out.commandPrefix = raw.commandPrefix;
     if (typeof raw.masterQQ === 'string') out.masterQQ = raw.masterQQ;
+    if (isGroupMode(raw.groupMode)) out.groupMode = raw.groupMode;
+    if (isUnapprovedGroupAction(raw.unapprovedGroupAction)) out.unapprovedGroupAction = raw.unapprovedGroupAction;
+    if (typeof raw.unapprovedGroupNotice === 'string') out.unapprovedGroupNotice = raw.unapprovedGroupNotice;
+    if (typeof raw.pmMaster === 'number') out.pmMaster = raw.pmMaster;
+    if (typeof raw.pmOwner === 'number') out.pmOwner = raw.pmOwner;
+    if (typeof raw.pmAdmin === 'number') out.pmAdmin = raw.pmAdmin;
+    if (typeof raw.pmMember === 'number') out.pmMember = raw.pmMember;
     if (typeof raw.gscoreUrl === 'string') out.gscoreUrl = raw.gscoreUrl;
     if (typeof raw.gscoreToken === 'string') out.gscoreToken = raw.gscoreToken;
     if (typeof raw.gscoreEnable === 'boolean') out.gscoreEnable = raw.gscoreEnable;
     if (typeof raw.reconnectInterval === 'number') out.reconnectInterval = raw.reconnectInterval;
     if (typeof raw.maxReconnectAttempts === 'number') out.maxReconnectAttempts = raw.maxReconnectAttempts;
+    if (typeof raw.reconnectMaxDelay === 'number') out.reconnectMaxDelay = raw.reconnectMaxDelay;
+    if (typeof raw.reconnectJitter === 'number') out.reconnectJitter = Math.min(Math.max(raw.reconnectJitter, 0), 1);
+    if (typeof raw.circuitProbeInterval === 'number') out.circuitProbeInterval = raw.circuitProbeInterval;
+    if (typeof raw.heartbeatInterval === 'number') out.heartbeatInterval = raw.heartbeatInterval;
+    if (typeof raw.heartbeatMaxMissed === 'number') out.heartbeatMaxMissed = raw.heartbeatMaxMissed;
+    if (typeof raw.offlineQueueSize === 'number') out.offlineQueueSize = raw.offlineQueueSize;
+    if (typeof raw.offlineQueueMaxAge === 'number') out.offlineQueueMaxAge = raw.offlineQueueMaxAge;
     if (typeof raw.customImageSummary === 'string') out.customImageSummary = raw.customImageSummary;
+    if (typeof raw.triggerPrefixes === 'string') out.triggerPrefixes = raw.triggerPrefixes;
+    if (typeof raw.triggerRegex === 'string') out.triggerRegex = raw.triggerRegex;
+    if (typeof raw.requireMention === 'boolean') out.requireMention = raw.requireMention;
+    if (typeof raw.rateLimitEnable === 'boolean') out.rateLimitEnable = raw.rateLimitEnable;
+    if (typeof raw.rateLimitUser === 'number') out.rateLimitUser = raw.rateLimitUser;
+    if (typeof raw.rateLimitGroup === 'number') out.rateLimitGroup = raw.rateLimitGroup;
+    if (typeof raw.rateLimitGlobal === 'number') out.rateLimitGlobal = raw.rateLimitGlobal;
+    if (typeof raw.rateLimitNotice === 'string') out.rateLimitNotice = raw.rateLimitNotice;
+    if (typeof raw.rateLimitNoticeInterval === 'number') out.rateLimitNoticeInterval = raw.rateLimitNoticeInterval;
+    if (typeof raw.sendRateLimit === 'number') out.sendRateLimit = raw.sendRateLimit;
+    if (typeof raw.sendTargetInterval === 'number') out.sendTargetInterval = raw.sendTargetInterval;
+    if (typeof raw.sendMaxRetries === 'number') out.sendMaxRetries = raw.sendMaxRetries;
+    if (typeof raw.sendRetryDelay === 'number') out.sendRetryDelay = raw.sendRetryDelay;
+    if (typeof raw.sendMaxChars === 'number') out.sendMaxChars = raw.sendMaxChars;
+    if (typeof raw.sendMaxImages === 'number') out.sendMaxImages = raw.sendMaxImages;
+    if (isOversizeMode(raw.oversizeMode)) out.oversizeMode = raw.oversizeMode;
+    if (isReplyQuoteMode(raw.replyQuoteMode)) out.replyQuoteMode = raw.replyQuoteMode;
+    if (typeof raw.forwardNodeUserId === 'string') out.forwardNodeUserId = raw.forwardNodeUserId.trim();
+    if (typeof raw.forwardNodeNickname === 'string') out.forwardNodeNickname = raw.forwardNodeNickname;
+    if (typeof raw.forwardExpandDepth === 'number') out.forwardExpandDepth = raw.forwardExpandDepth;
+    if (isMediaInlineMode(raw.mediaInlineMode)) out.mediaInlineMode = raw.mediaInlineMode;
+    if (typeof raw.mediaInlineMaxSize === 'number') out.mediaInlineMaxSize = raw.mediaInlineMaxSize;
+    if (typeof raw.mediaInlineMaxCount === 'number') out.mediaInlineMaxCount = raw.mediaInlineMaxCount;
+    if (typeof raw.buttonMenuEnable === 'boolean') out.buttonMenuEnable = raw.buttonMenuEnable;
+    if (typeof raw.buttonMenuTimeout === 'number') out.buttonMenuTimeout = raw.buttonMenuTimeout;
+    if (typeof raw.forwardPoke === 'boolean') out.forwardPoke = raw.forwardPoke;
+    if (typeof raw.forwardGroupIncrease === 'boolean') out.forwardGroupIncrease = raw.forwardGroupIncrease;
+    if (typeof raw.forwardGroupDecrease === 'boolean') out.forwardGroupDecrease = raw.forwardGroupDecrease;
+    if (typeof raw.forwardFriendAdd === 'boolean') out.forwardFriendAdd = raw.forwardFriendAdd;
+    if (typeof raw.forwardFriendRequest === 'boolean') out.forwardFriendRequest = raw.forwardFriendRequest;
+    if (typeof raw.forwardGroupRequest === 'boolean') out.forwardGroupRequest = raw.forwardGroupRequest;
+    if (typeof raw.fileUploadEnable === 'boolean') out.fileUploadEnable = raw.fileUploadEnable;
+    if (typeof raw.fileMaxSize === 'number') out.fileMaxSize = raw.fileMaxSize;
+    if (typeof raw.fileDownloadTimeout === 'number') out.fileDownloadTimeout = raw.fileDownloadTimeout;
+    if (typeof raw.alertEnable === 'boolean') out.alertEnable = raw.alertEnable;
+    if (typeof raw.alertGroupId === 'string') out.alertGroupId = raw.alertGroupId.trim();
+    if (typeof raw.alertDisconnectGrace === 'number') out.alertDisconnectGrace = raw.alertDisconnectGrace;
+    if (isAlertLogLevel(raw.alertLogLevel)) out.alertLogLevel = raw.alertLogLevel;
+    if (typeof raw.alertQuietPeriod === 'number') out.alertQuietPeriod = raw.alertQuietPeriod;
+    if (typeof raw.statsEnable === 'boolean') out.statsEnable = raw.statsEnable;
+    if (typeof raw.statsRetentionDays === 'number') out.statsRetentionDays = raw.statsRetentionDays;
+    if (typeof raw.latencyReplyTimeout === 'number') out.latencyReplyTimeout = raw.latencyReplyTimeout;
+    if (typeof raw.defaultConnection === 'string') out.defaultConnection = raw.defaultConnection.trim();
+    if (typeof raw.privateConnection === 'string') out.privateConnection = raw.privateConnection.trim();
+
+    // 额外连接清洗（名称必须唯一且不能占用 default）
+    out.gscoreConnections = [];
+    if (Array.isArray(raw.gscoreConnections)) {
+        const names = new Set<string>([DEFAULT_CONNECTION_NAME]);
+        for (const item of raw.gscoreConnections) {
+            if (!isObject(item)) continue;
+            const name = typeof item.name === 'string' ? item.name.trim() : '';
+            if (!name || names.has(name) || typeof item.url !== 'string') continue;
+            names.add(name);
+            const conn: GScoreConnectionConfig = {
+                name,
+                enabled: item.enabled !== false,
+                url: item.url,
+                token: typeof item.token === 'string' ? item.token : '',
+            };
+            if (typeof item.reconnectInterval === 'number') conn.reconnectInterval = item.reconnectInterval;
+            if (typeof item.maxReconnectAttempts === 'number') conn.maxReconnectAttempts = item.maxReconnectAttempts;
+            out.gscoreConnections.push(conn);
+        }
+    }
+
+    // 用户权限覆盖清洗
+    if (isObject(raw.userPmOverrides)) {
+        for (const [userId, pm] of Object.entries(raw.userPmOverrides)) {
+            if (typeof pm === 'number' && Number.isFinite(pm)) out.userPmOverrides[userId] = pm;
+        }
+    }
+
+    // Markdown 模板清洗
+    if (isObject(raw.markdownTemplates)) {
+        for (const [templateId, template] of Object.entries(raw.markdownTemplates)) {
+            if (typeof template === 'string') out.markdownTemplates[templateId] = template;
+        }
+    }
 
-    // 黑名单清洗
+    // 黑名单清洗（兼容旧版 string[] 格式）
     if (Array.isArray(raw.blacklist)) {
-        out.blacklist = raw.blacklist.filter((item: unknown) => typeof item === 'string');
+        out.blacklist = sanitizeBlacklist(raw.blacklist);
     }
 
     // 群配置清洗
@@ -52,6 +213,23 @@ function sanitizeConfig(raw: unknown): PluginConfig {
             if (isObject(groupConfig)) {
                 const cfg: GroupConfig = {};
                 if (typeof groupConfig.enabled === 'boolean') cfg.enabled = groupConfig.enabled;
+                if (typeof groupConfig.connection === 'string' && groupConfig.connection.trim()) {
+                    cfg.connection = groupConfig.connection.trim();
+                }
+                if (typeof groupConfig.triggerPrefixes === 'string') cfg.triggerPrefixes = groupConfig.triggerPrefixes;
+                if (typeof groupConfig.triggerRegex === 'string') cfg.triggerRegex = groupConfig.triggerRegex;
+                if (typeof groupConfig.requireMention === 'boolean') cfg.requireMention = groupConfig.requireMention;
+                if (isReplyQuoteMode(groupConfig.replyQuoteMode)) cfg.replyQuoteMode = groupConfig.replyQuoteMode;
+                if (typeof groupConfig.forwardNodeUserId === 'string' && groupConfig.forwardNodeUserId.trim()) {
+                    cfg.forwardNodeUserId = groupConfig.forwardNodeUserId.trim();
+                }
+                if (typeof groupConfig.forwardNodeNickname === 'string' && groupConfig.forwardNodeNickname) {
+                    cfg.forwardNodeNickname = groupConfig.forwardNodeNickname;
+                }
+                if (Array.isArray(groupConfig.blacklist)) {
+                    const blacklist = sanitizeBlacklist(groupConfig.blacklist);
+                    if (blacklist.length > 0) cfg.blacklist = blacklist;
+                }
                 out.groupConfigs[groupId] = cfg;
             }
         }
@@ -75,6 +253,9 @@ class PluginState {
     /** 机器人自身 QQ 号 */
     selfId: string = '';
 
+    /** 机器人昵称 */
+    selfNickname: string = '';
+
     /** 获取上下文（确保已初始化） */
     get ctx(): NapCatPluginContext {
         if (!this._ctx) throw new Error('PluginState 尚未初始化，请先调用 init()');
@@ -105,11 +286,14 @@ class PluginState {
         try {
             const res = await this.ctx.actions.call(
                 'get_login_info', {}, this.ctx.adapterName, this.ctx.pluginManager.config
-            ) as { user_id?: number | string };
+            ) as { user_id?: number | string; nickname?: string };
             if (res?.user_id) {
                 this.selfId = String(res.user_id);
                 this.logger.debug("(｡·ω·｡) 机器人 QQ: " + this.selfId);
             }
+            if (res?.nickname) {
+                this.selfNickname = res.nickname;
+            }
         } catch (e) {
             this.logger.warn("(；′⌒`) 获取机器人 QQ 号失败:", e);
         }
@@ -136,13 +320,13 @@ class PluginState {
                 this.config = sanitizeConfig(raw);
                 this.ctx.logger.debug('已加载本地配置');
             } else {
-                this.config = { ...DEFAULT_CONFIG, groupConfigs: {} };
+                this.config = sanitizeConfig(null);
                 this.saveConfig();
                 this.ctx.logger.debug('配置文件不存在，已创建默认配置');
             }
         } catch (error) {
             this.ctx.logger.error('加载配置失败，使用默认配置:', error);
-            this.config = { ...DEFAULT_CONFIG, groupConfigs: {} };
+            this.config = sanitizeConfig(null);
         }
     }
 
@@ -191,40 +375,192 @@ class PluginState {
     }
 
     /**
-     * 检查群是否启用（默认启用，除非明确设置为 false）
+     * 检查群是否启用
+     * optout 模式默认启用，除非明确设置为 false；optin 模式仅明确设置为 true 时启用
      */
     isGroupEnabled(groupId: string): boolean {
-        return this.config.groupConfigs[groupId]?.enabled !== false;
+        const enabled = this.config.groupConfigs[groupId]?.enabled;
+        if (this.config.groupMode === 'optin') return enabled === true;
+        return enabled !== false;
+    }
+
+    /**
+     * 检查群是否从未开通过（仅 optin 模式，被明确关闭的群不算）
+     */
+    isGroupUnapproved(groupId: string): boolean {
+        return this.config.groupMode === 'optin' && this.config.groupConfigs[groupId]?.enabled === undefined;
+    }
+
+    // ==================== 连接路由 ====================
+
+    /**
+     * 获取所有连接配置（默认连接 + 额外连接）
+     */
+    getConnectionConfigs(): GScoreConnectionConfig[] {
+        const defaultConn: GScoreConnectionConfig = {
+            name: DEFAULT_CONNECTION_NAME,
+            enabled: true,
+            url: this.config.gscoreUrl,
+            token: this.config.gscoreToken,
+        };
+        return [defaultConn, ...this.config.gscoreConnections];
+    }
+
+    /**
+     * 解析消息应转发到的连接名称
+     * 群消息：群单独配置 > defaultConnection > default
+     * 私聊消息：privateConnection > defaultConnection > default
+     */
+    resolveConnectionName(groupId?: string): string {
+        const fallback = this.config.defaultConnection || DEFAULT_CONNECTION_NAME;
+        if (groupId) {
+            return this.config.groupConfigs[groupId]?.connection || fallback;
+        }
+        return this.config.privateConnection || fallback;
+    }
+
+    /**
+     * 获取触发过滤配置（群单独配置优先），私聊使用全局配置且不要求 @
+     */
+    getTriggerConfig(groupId?: string): { prefixes: string[]; regex: string; requireMention: boolean } {
+        const groupConfig = groupId ? this.config.groupConfigs[groupId] : undefined;
+        const prefixes = groupConfig?.triggerPrefixes ?? this.config.triggerPrefixes;
+        return {
+            prefixes: prefixes.split(',').map(p => p.trim()).filter(p => p.length > 0),
+            regex: (groupConfig?.triggerRegex ?? this.config.triggerRegex).trim(),
+            requireMention: !!groupId && (groupConfig?.requireMention ?? this.config.requireMention),
+        };
+    }
+
+    /**
+     * 获取群的自动引用方式（群单独配置优先），私聊使用全局配置
+     */
+    getReplyQuoteMode(groupId?: string): ReplyQuoteMode {
+        const groupMode = groupId ? this.config.groupConfigs[groupId]?.replyQuoteMode : undefined;
+        return groupMode ?? this.config.replyQuoteMode;
+    }
+
+    /**
+     * 获取合并转发节点的发送者身份
+     * 优先级：群单独配置 > 全局配置 > 机器人自身
+     */
+    getForwardSender(groupId?: string): { user_id: string; nickname: string } {
+        const groupConfig = groupId ? this.config.groupConfigs[groupId] : undefined;
+        return {
+            user_id: groupConfig?.forwardNodeUserId || this.config.forwardNodeUserId || this.selfId,
+            nickname: groupConfig?.forwardNodeNickname || this.config.forwardNodeNickname || this.selfNickname || 'GScore',
+        };
+    }
+
+    // ==================== 权限 ====================
+
+    /**
+     * 获取主人QQ列表
+     */
+    getMasterQQs(): string[] {
+        const masterQQ = this.config.masterQQ;
+        if (!masterQQ) return [];
+        return String(masterQQ).split(',').map(qq => qq.trim()).filter(qq => qq.length > 0);
+    }
+
+    /**
+     * 检查用户是否为主人
+     */
+    isMaster(userId: string): boolean {
+        return this.getMasterQQs().includes(userId);
+    }
+
+    /**
+     * 计算发送给 GScore 的用户权限等级（user_pm）
+     * 优先级：单用户覆盖 > 主人 > 群主 > 管理员 > 普通用户
+     */
+    resolveUserPm(userId: string, role?: unknown): number {
+        const override = this.config.userPmOverrides[userId];
+        if (typeof override === 'number') return override;
+        if (this.isMaster(userId)) return this.config.pmMaster;
+        if (role === 'owner') return this.config.pmOwner;
+        if (role === 'admin') return this.config.pmAdmin;
+        return this.config.pmMember;
+    }
+
+    /**
+     * 设置或清除单个用户的权限覆盖（pm 为 null 时清除）
+     */
+    setUserPmOverride(userId: string, pm: number | null): void {
+        if (pm === null) {
+            delete this.config.userPmOverrides[userId];
+        } else {
+            this.config.userPmOverrides[userId] = pm;
+        }
+        this.saveConfig();
     }
 
     // ==================== 黑名单管理 ====================
+    // groupId 为空时操作全局黑名单，否则操作该群的黑名单
 
     /**
-     * 添加用户到黑名单
+     * 添加用户到黑名单，已存在时覆盖原记录
      */
-    addToBlacklist(userId: string): void {
-        if (!this.config.blacklist.includes(userId)) {
-            this.config.blacklist.push(userId);
-            this.saveConfig();
+    addToBlacklist(userId: string, options: { operator?: string; reason?: string; expiresAt?: number } = {}, groupId?: string): void {
+        const list = this.getBlacklist(groupId);
+        const entry: BlacklistEntry = { userId, createdAt: Date.now(), ...options };
+        const index = list.findIndex(e => e.userId === userId);
+        if (index !== -1) {
+            list[index] = entry;
+        } else {
+            list.push(entry);
         }
+        this.setBlacklist(list, groupId);
     }
 
     /**
      * 从黑名单移除用户
      */
-    removeFromBlacklist(userId: string): void {
-        const index = this.config.blacklist.indexOf(userId);
+    removeFromBlacklist(userId: string, groupId?: string): void {
+        const list = this.getBlacklist(groupId);
+        const index = list.findIndex(e => e.userId === userId);
         if (index !== -1) {
-            this.config.blacklist.splice(index, 1);
-            this.saveConfig();
+            list.splice(index, 1);
+            this.setBlacklist(list, groupId);
+        }
+    }
+
+    /**
+     * 检查用户是否被拉黑（已到期的条目会被自动解除）
+     * 指定群号时，全局黑名单与该群黑名单任一命中即视为拉黑
+     */
+    isBlacklisted(userId: string, groupId?: string): boolean {
+        if (this.getBlacklist().some(e => e.userId === userId)) return true;
+        return !!groupId && this.getBlacklist(groupId).some(e => e.userId === userId);
+    }
+
+    /**
+     * 获取当前有效的黑名单（不指定群号时为全局黑名单）
+     */
+    getBlacklist(groupId?: string): BlacklistEntry[] {
+        const list = groupId ? this.config.groupConfigs[groupId]?.blacklist ?? [] : this.config.blacklist;
+        const now = Date.now();
+        const active = list.filter(e => !e.expiresAt || e.expiresAt > now);
+        if (active.length === list.length) return list;
+
+        const scope = groupId ? `群 ${groupId} ` : '全局';
+        for (const entry of list) {
+            if (!active.includes(entry)) this.logger.info(`用户 ${entry.userId} 的${scope}拉黑已到期，自动解除`);
         }
+        this.setBlacklist(active, groupId);
+        return active;
     }
 
     /**
-     * 检查用户是否在黑名单中
+     * 写回黑名单并保存
      */
-    isBlacklisted(userId: string): boolean {
-        return this.config.blacklist.includes(userId);
+    private setBlacklist(list: BlacklistEntry[], groupId?: string): void {
+        if (!groupId) {
+            this.config.blacklist = list;
+            this.saveConfig();
+            return;
+        }
+        this.updateGroupConfig(groupId, { blacklist: list.length > 0 ? list : undefined });
     }
 
     // ==================== 工具方法 ====================
@@ -236,16 +572,7 @@ class PluginState {
 
     /** 获取格式化的运行时长 */
     getUptimeFormatted(): string {
-        const ms = this.getUptime();
-        const s = Math.floor(ms / 1000);
-        const m = Math.floor(s / 60);
-        const h = Math.floor(m / 60);
-        const d = Math.floor(h / 24);
-
-        if (d > 0) return `${d}天${h % 24}小时`;
-        if (h > 0) return `${h}小时${m % 60}分钟`;
-        if (m > 0) return `${m}分钟${s % 60}秒`;
-        return `${s}秒`;
+        return formatDuration(this.getUptime());
     }
 }
 
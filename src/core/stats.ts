@@ -0,0 +1,319 @@
+/**
+ * 使用统计
+ *
+ * 按天汇总转发、回复、发送失败次数，以及按群/用户/命令的转发次数、按群/用户的回复与发送失败次数，
+ * 保存在配置文件同目录的 stats.json 中（与配置分开，避免频繁改写配置文件）。
+ *
+ * 使用方法：
+ *   import { usageStats } from '../core/stats';
+ *   usageStats.recordForward(userId, groupId, command);
+ *   usageStats.getSummary(7);
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pluginState } from './state';
+
+/** 统计文件名 */
+const STATS_FILE = 'stats.json';
+/** 有改动后延迟写盘的时间（毫秒） */
+const SAVE_DELAY = 30 * 1000;
+/** 私聊在按群统计中的键 */
+export const PRIVATE_STATS_KEY = 'private';
+
+/**
+ * 单个群（或私聊）的当日统计
+ */
+export interface GroupDailyStats {
+    forwarded: number;
+    replies: number;
+    sendFailures: number;
+    /** 按 QQ 号的转发次数 */
+    users: Record<string, number>;
+    /** 按命令（消息第一个词）的转发次数 */
+    commands: Record<string, number>;
+    /** 按 QQ 号（触发回复的用户）的回复次数 */
+    replyUsers: Record<string, number>;
+    /** 按 QQ 号（触发回复的用户）的发送失败次数 */
+    failureUsers: Record<string, number>;
+}
+
+/**
+ * 单日统计
+ */
+export interface DailyStats {
+    forwarded: number;
+    replies: number;
+    sendFailures: number;
+    /** 按群号的统计，私聊记在 PRIVATE_STATS_KEY 下 */
+    groups: Record<string, GroupDailyStats>;
+}
+
+/**
+ * 多日汇总结果
+ */
+export interface StatsSummary {
+    days: number;
+    forwarded: number;
+    replies: number;
+    sendFailures: number;
+    groups: Record<string, number>;
+    users: Record<string, number>;
+    commands: Record<string, number>;
+    replyUsers: Record<string, number>;
+    failureGroups: Record<string, number>;
+    failureUsers: Record<string, number>;
+}
+
+function emptyDay(): DailyStats {
+    return { forwarded: 0, replies: 0, sendFailures: 0, groups: {} };
+}
+
+function emptyGroup(): GroupDailyStats {
+    return { forwarded: 0, replies: 0, sendFailures: 0, users: {}, commands: {}, replyUsers: {}, failureUsers: {} };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return v !== null && typeof v === 'object' && !Array.isArray(v);
+}
+
+/**
+ * 非负整数计数，无效值记为 0
+ */
+function toCount(v: unknown): number {
+    return typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.floor(v) : 0;
+}
+
+/**
+ * 清洗 键 → 次数 映射，丢弃无效的计数
+ */
+function sanitizeCounts(raw: unknown): Record<string, number> {
+    const counts: Record<string, number> = {};
+    if (!isObject(raw)) return counts;
+    for (const [key, value] of Object.entries(raw)) {
+        const n = toCount(value);
+        if (n > 0) counts[key] = n;
+    }
+    return counts;
+}
+
+/**
+ * 清洗从 stats.json 读取的单日统计，缺失或类型错误的字段按空值补齐
+ * @returns 不是对象时返回 null
+ */
+function sanitizeDay(raw: unknown): DailyStats | null {
+    if (!isObject(raw)) return null;
+    const day: DailyStats = {
+        forwarded: toCount(raw.forwarded),
+        replies: toCount(raw.replies),
+        sendFailures: toCount(raw.sendFailures),
+        groups: {},
+    };
+    if (isObject(raw.groups)) {
+        for (const [key, group] of Object.entries(raw.groups)) {
+            if (!isObject(group)) continue;
+            day.groups[key] = {
+                forwarded: toCount(group.forwarded),
+                replies: toCount(group.replies),
+                sendFailures: toCount(group.sendFailures),
+                users: sanitizeCounts(group.users),
+                commands: sanitizeCounts(group.commands),
+                replyUsers: sanitizeCounts(group.replyUsers),
+                failureUsers: sanitizeCounts(group.failureUsers),
+            };
+        }
+    }
+    return day;
+}
+
+/**
+ * 本地日期键，如 2024-01-31
+ */
+function dayKey(time: number): string {
+    const d = new Date(time);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+class UsageStats {
+    /** 日期键 → 当日统计 */
+    private days: Record<string, DailyStats> = {};
+    private saveTimer: NodeJS.Timeout | null = null;
+    private filePath: string | null = null;
+
+    /**
+     * 从配置文件同目录加载统计数据
+     */
+    load(): void {
+        this.filePath = path.join(path.dirname(pluginState.ctx.configPath), STATS_FILE);
+        this.days = {};
+        try {
+            if (fs.existsSync(this.filePath)) {
+                const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+                if (isObject(raw) && isObject(raw.days)) {
+                    // 格式错误的日期数据直接丢弃，避免后续统计时出错
+                    for (const [key, value] of Object.entries(raw.days)) {
+                        const day = /^\d{4}-\d{2}-\d{2}$/.test(key) ? sanitizeDay(value) : null;
+                        if (day) {
+                            this.days[key] = day;
+                        } else {
+                            pluginState.logger.warn(`统计数据中 ${key} 的格式无效，已忽略`);
+                        }
+                    }
+                }
+            }
+        } catch (error) {
+            pluginState.logger.warn('加载统计数据失败，将重新统计:', error);
+        }
+        this.prune();
+    }
+
+    /**
+     * 立即写盘（插件卸载时调用）
+     */
+    save(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        if (!this.filePath) return;
+        try {
+            fs.writeFileSync(this.filePath, JSON.stringify({ days: this.days }), 'utf-8');
+        } catch (error) {
+            pluginState.logger.error('保存统计数据失败:', error);
+        }
+    }
+
+    /**
+     * 记录一条转发到 GScore 的消息
+     * @param command 消息的第一个词
+     */
+    recordForward(userId: string, groupId: string | undefined, command: string): void {
+        const day = this.today();
+        if (!day) return;
+        const group = this.group(day, groupId);
+        day.forwarded++;
+        group.forwarded++;
+        group.users[userId] = (group.users[userId] ?? 0) + 1;
+        if (command) group.commands[command] = (group.commands[command] ?? 0) + 1;
+        this.scheduleSave();
+    }
+
+    /**
+     * 记录一条 GScore 回复
+     * @param userId 触发回复的用户，无法找回时不计入按用户统计
+     */
+    recordReply(groupId?: string, userId?: string): void {
+        const day = this.today();
+        if (!day) return;
+        const group = this.group(day, groupId);
+        day.replies++;
+        group.replies++;
+        if (userId) group.replyUsers[userId] = (group.replyUsers[userId] ?? 0) + 1;
+        this.scheduleSave();
+    }
+
+    /**
+     * 记录发送失败（重试耗尽）的次数
+     * @param userId 触发回复的用户，无法找回时不计入按用户统计
+     */
+    recordSendFailure(count: number, groupId?: string, userId?: string): void {
+        const day = this.today();
+        if (!day || count <= 0) return;
+        const group = this.group(day, groupId);
+        day.sendFailures += count;
+        group.sendFailures += count;
+        if (userId) group.failureUsers[userId] = (group.failureUsers[userId] ?? 0) + count;
+        this.scheduleSave();
+    }
+
+    /**
+     * 获取今天的统计
+     */
+    getToday(): DailyStats {
+        return this.days[dayKey(Date.now())] ?? emptyDay();
+    }
+
+    /**
+     * 汇总最近 days 天（含今天）的统计
+     * @param groupId 指定时仅汇总该群，groups 中也只包含该群
+     */
+    getSummary(days: number, groupId?: string): StatsSummary {
+        const summary: StatsSummary = {
+            days, forwarded: 0, replies: 0, sendFailures: 0,
+            groups: {}, users: {}, commands: {}, replyUsers: {}, failureGroups: {}, failureUsers: {},
+        };
+        const add = (target: Record<string, number>, key: string, n: number) => {
+            target[key] = (target[key] ?? 0) + n;
+        };
+
+        for (let i = 0; i < days; i++) {
+            const day = this.days[dayKey(Date.now() - i * 24 * 60 * 60 * 1000)];
+            if (!day) continue;
+            // 按群记录失败次数之前的旧数据只有当日总数，汇总全部群时以当日总数为准
+            if (!groupId) summary.sendFailures += day.sendFailures;
+
+            for (const [key, group] of Object.entries(day.groups)) {
+                if (groupId && key !== groupId) continue;
+                summary.forwarded += group.forwarded;
+                summary.replies += group.replies;
+                if (groupId) summary.sendFailures += group.sendFailures;
+                add(summary.groups, key, group.forwarded);
+                if (group.sendFailures > 0) add(summary.failureGroups, key, group.sendFailures);
+                for (const [userId, n] of Object.entries(group.users)) add(summary.users, userId, n);
+                for (const [command, n] of Object.entries(group.commands)) add(summary.commands, command, n);
+                for (const [userId, n] of Object.entries(group.replyUsers)) add(summary.replyUsers, userId, n);
+                for (const [userId, n] of Object.entries(group.failureUsers)) add(summary.failureUsers, userId, n);
+            }
+        }
+        return summary;
+    }
+
+    /** 清空内存中的统计（不写盘） */
+    clear(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.days = {};
+        this.filePath = null;
+    }
+
+    /**
+     * 获取今天的统计，未启用统计时返回 null
+     */
+    private today(): DailyStats | null {
+        if (!pluginState.config.statsEnable) return null;
+        const key = dayKey(Date.now());
+        if (!this.days[key]) {
+            this.days[key] = emptyDay();
+            this.prune();
+        }
+        return this.days[key];
+    }
+
+    private group(day: DailyStats, groupId?: string): GroupDailyStats {
+        const key = groupId || PRIVATE_STATS_KEY;
+        if (!day.groups[key]) day.groups[key] = emptyGroup();
+        return day.groups[key];
+    }
+
+    /**
+     * 删除超过保留天数的数据
+     */
+    private prune(): void {
+        const retention = Math.max(pluginState.config.statsRetentionDays || 0, 1);
+        const oldest = dayKey(Date.now() - (retention - 1) * 24 * 60 * 60 * 1000);
+        for (const key of Object.keys(this.days)) {
+            if (key < oldest) delete this.days[key];
+        }
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY);
+    }
+}
+
+/** 导出全局单例 */
+export const usageStats = new UsageStats();
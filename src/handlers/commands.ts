@@ -0,0 +1,793 @@
+/**
+ * 命令注册表
+ *
+ * 每个命令声明名称、别名、参数解析、所需权限与可用场景，
+ * 由 dispatchCommand 统一匹配、校验后执行，帮助文本也由注册表生成。
+ *
+ * 新增命令：在 COMMANDS 中添加一项 defineCommand({ ... }) 即可
+ */
+
+import type { OB11Message } from 'napcat-types/napcat-onebot';
+import type { NapCatPluginContext } from 'napcat-types/napcat-onebot/network/plugin/types';
+import { pluginState, formatDuration } from '../core/state';
+import type { ReplyQuoteMode } from '../types';
+import { rateLimiter, RATE_LIMIT_SCOPE_LABELS, type RateLimitScope } from '../services/rate-limiter';
+import { sendScheduler } from '../services/send-scheduler';
+import { usageStats, PRIVATE_STATS_KEY, type StatsSummary } from '../core/stats';
+import { latencyTracker, type CommandLatency } from '../services/latency-tracker';
+import { sendReply, extractAtTargets } from './message-handler';
+
+// ==================== 类型定义 ====================
+
+/**
+ * 命令所需权限
+ * everyone: 所有人；groupAdmin: 群主/管理员/主人；
+ * admin: 授权用户（设置了主人QQ时仅主人，否则群主/管理员）；master: 仅主人
+ * 私聊中除 everyone 外均需主人权限
+ */
+export type CommandPermission = 'everyone' | 'groupAdmin' | 'admin' | 'master';
+
+/** 命令可用场景 */
+export type CommandScope = 'group' | 'private' | 'all';
+
+/**
+ * 命令执行上下文
+ */
+export interface CommandContext {
+    ctx: NapCatPluginContext;
+    event: OB11Message;
+    prefix: string;
+    /** 实际触发的命令名或别名 */
+    name: string;
+    userId: string;
+    /** 群号，私聊时为 undefined */
+    groupId?: string;
+    /** 命令名之后的原始参数文本（含 CQ 码） */
+    args: string;
+}
+
+/**
+ * 命令定义
+ */
+export interface CommandDefinition<T = unknown> {
+    name: string;
+    aliases?: string[];
+    /** 参数说明，用于帮助与用法提示 */
+    usage?: string;
+    description: string;
+    permission: CommandPermission;
+    scope: CommandScope;
+    /** 参数解析，返回 null 时回复用法提示；不填时为去除首尾空白的参数文本 */
+    parse?: (c: CommandContext) => T | null;
+    run: (c: CommandContext, args: T) => Promise<void>;
+}
+
+function defineCommand<T>(command: CommandDefinition<T>): CommandDefinition {
+    return command as unknown as CommandDefinition;
+}
+
+// ==================== 命令定义 ====================
+
+/** 自动引用方式的显示名称 */
+const REPLY_QUOTE_LABELS: Record<ReplyQuoteMode, string> = {
+    off: '关闭',
+    reply: '引用触发消息',
+    at: '@触发者',
+    both: '引用并@',
+};
+
+/** 群引用命令参数 → 自动引用方式 */
+const REPLY_QUOTE_ARGS: Record<string, ReplyQuoteMode> = {
+    关闭: 'off',
+    引用: 'reply',
+    艾特: 'at',
+    全部: 'both',
+};
+
+/** 时长单位 → 毫秒 */
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000, 秒: 1000,
+    m: 60 * 1000, 分: 60 * 1000, 分钟: 60 * 1000,
+    h: 60 * 60 * 1000, 时: 60 * 60 * 1000, 小时: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000, 天: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000, 周: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** 统计命令参数 → 统计范围 */
+const STATS_RANGE_ARGS: Record<string, 'today' | '7d' | 'group'> = {
+    '': 'today',
+    today: 'today',
+    今日: 'today',
+    '7d': '7d',
+    '7天': '7d',
+    group: 'group',
+    本群: 'group',
+};
+
+/** 统计排行显示条数 */
+const STATS_TOP_N = 5;
+
+/** 黑名单列表每页条数 */
+const BLACKLIST_PAGE_SIZE = 10;
+
+/** 群号参数：不填为本群 */
+function parseGroupIdArg(c: CommandContext): { groupId?: string } | null {
+    const arg = c.args.trim();
+    if (!arg) return {};
+    return /^\d{5,12}$/.test(arg) ? { groupId: arg } : null;
+}
+
+/** 页码参数：默认第 1 页 */
+function parsePageArg(c: CommandContext): number {
+    return Math.max(parseInt(c.args.trim(), 10) || 1, 1);
+}
+
+/**
+ * 开启/关闭群
+ * 指定群号，或白名单模式下开通群，需要主人权限
+ */
+async function toggleGroup(c: CommandContext, enable: boolean, argGroupId?: string): Promise<void> {
+    const targetGroupId = argGroupId || c.groupId;
+    if (!targetGroupId) return void await sendReply(c.ctx, c.event, '请在群组中使用此命令，或附带群号');
+
+    const needMaster = !!argGroupId || (enable && pluginState.config.groupMode === 'optin');
+    if (needMaster && !pluginState.isMaster(c.userId)) {
+        return void await sendReply(c.ctx, c.event, permissionDeniedText('master'));
+    }
+
+    pluginState.updateGroupConfig(targetGroupId, { enabled: enable });
+    const groupText = argGroupId ? `群 ${targetGroupId} ` : '本群';
+    await sendReply(c.ctx, c.event, enable
+        ? `✅ ${groupText}早柚核心适配已开启`
+        : `🚫 ${groupText}早柚核心适配已关闭`);
+}
+
+/**
+ * 拉黑/取消拉黑
+ * global 为 false 且在群聊中时操作本群黑名单，否则操作全局黑名单
+ */
+async function updateBlacklist(c: CommandContext, action: 'ban' | 'unban', global: boolean): Promise<void> {
+    const scopeGroupId = global ? undefined : c.groupId;
+    const scopeText = scopeGroupId ? '本群' : '全局';
+
+    // 参数格式: @用户/QQ [时长] [原因]，时长如 30m/2h/1d/1w
+    const { userIds, duration, reason } = parseBanArgs(c.args);
+    const targets = [...new Set([...extractAtTargets(c.event), ...userIds])];
+    if (targets.length === 0) {
+        const verb = action === 'ban' ? '拉黑' : '取消拉黑';
+        await sendReply(c.ctx, c.event, `❌ 请 @要${verb}的用户${scopeGroupId ? '' : '或填写 QQ 号'}`);
+        return;
+    }
+
+    const results: string[] = [];
+    const expiresAt = duration ? Date.now() + duration : undefined;
+
+    for (const targetId of targets) {
+        const existed = pluginState.getBlacklist(scopeGroupId).some(e => e.userId === targetId);
+
+        if (action === 'unban') {
+            if (!existed) {
+                results.push(`⚠️ 用户 ${targetId} 不在${scopeText}黑名单中`);
+            } else {
+                pluginState.removeFromBlacklist(targetId, scopeGroupId);
+                results.push(`✅ 已取消${scopeText}拉黑用户 ${targetId}`);
+            }
+            continue;
+        }
+
+        // 阻止拉黑自己，群管理员不能拉黑主人
+        if (targetId === c.userId) {
+            results.push('❌ 你不能拉黑你自己！');
+            continue;
+        }
+        if (scopeGroupId && pluginState.isMaster(targetId)) {
+            results.push(`❌ 不能拉黑主人 ${targetId}`);
+            continue;
+        }
+
+        pluginState.addToBlacklist(targetId, { operator: c.userId, reason, expiresAt }, scopeGroupId);
+        const durationText = duration ? `，时长 ${formatDuration(duration)}` : '';
+        results.push(existed
+            ? `✅ 已更新用户 ${targetId} 的${scopeText}拉黑${durationText}`
+            : `✅ 已${scopeText}拉黑用户 ${targetId}${durationText}`);
+    }
+    await sendReply(c.ctx, c.event, results.join('\n'));
+}
+
+/**
+ * 已注册的命令，按帮助中的显示顺序排列
+ */
+const COMMANDS: CommandDefinition[] = [
+    defineCommand({
+        name: 'help',
+        aliases: ['帮助'],
+        description: '显示帮助信息',
+        permission: 'everyone',
+        scope: 'all',
+        run: async (c) => {
+            await sendReply(c.ctx, c.event, buildHelpText(c.prefix));
+        },
+    }),
+    defineCommand({
+        name: 'status',
+        aliases: ['状态'],
+        description: '查看连接器状态',
+        permission: 'everyone',
+        scope: 'all',
+        run: async (c) => {
+            await sendReply(c.ctx, c.event, await buildStatusText(c.groupId));
+        },
+    }),
+    defineCommand({
+        name: '统计',
+        usage: '[today/7d/group]',
+        description: '查看今日/近 7 天/本群近 7 天的使用统计',
+        permission: 'admin',
+        scope: 'all',
+        parse: (c) => STATS_RANGE_ARGS[c.args.trim().toLowerCase()] ?? null,
+        run: async (c, range: 'today' | '7d' | 'group') => {
+            if (range === 'group' && !c.groupId) {
+                return void await sendReply(c.ctx, c.event, '请在群组中使用此命令');
+            }
+            const summary = range === 'today'
+                ? usageStats.getSummary(1)
+                : usageStats.getSummary(7, range === 'group' ? c.groupId : undefined);
+            const title = { today: '今日统计', '7d': '近 7 天统计', group: '本群近 7 天统计' }[range];
+            await sendReply(c.ctx, c.event, formatStatsSummary(title, summary, range !== 'group'));
+        },
+    }),
+    defineCommand({
+        name: '群开启',
+        aliases: ['群启用'],
+        usage: '[群号]',
+        description: '开启本群早柚核心（指定群号仅主人）',
+        permission: 'admin',
+        scope: 'all',
+        parse: parseGroupIdArg,
+        run: async (c, args) => toggleGroup(c, true, args.groupId),
+    }),
+    defineCommand({
+        name: '群关闭',
+        aliases: ['群禁用'],
+        usage: '[群号]',
+        description: '关闭本群早柚核心（指定群号仅主人）',
+        permission: 'admin',
+        scope: 'all',
+        parse: parseGroupIdArg,
+        run: async (c, args) => toggleGroup(c, false, args.groupId),
+    }),
+    defineCommand<string>({
+        name: '群连接',
+        usage: '[名称]',
+        description: '查看/切换本群使用的 GScore 连接',
+        permission: 'admin',
+        scope: 'group',
+        run: async (c, name) => {
+            const groupId = c.groupId!;
+            const names = pluginState.getConnectionConfigs().map(conn => conn.name);
+            if (!name) {
+                const current = pluginState.resolveConnectionName(groupId);
+                await sendReply(c.ctx, c.event, `本群当前连接: ${current}\n可用连接: ${names.join(', ')}`);
+                return;
+            }
+            if (!names.includes(name)) {
+                await sendReply(c.ctx, c.event, `❌ 连接 ${name} 不存在，可用连接: ${names.join(', ')}`);
+                return;
+            }
+
+            pluginState.updateGroupConfig(groupId, { connection: name });
+            await sendReply(c.ctx, c.event, `✅ 本群已切换到连接 ${name}`);
+        },
+    }),
+    defineCommand({
+        name: '群引用',
+        usage: '[关闭/引用/艾特/全部/默认]',
+        description: '设置回复时自动引用触发消息',
+        permission: 'admin',
+        scope: 'group',
+        parse: (c) => {
+            const arg = c.args.trim();
+            if (!arg) return { show: true };
+            if (arg === '默认') return { mode: undefined };
+            const mode = REPLY_QUOTE_ARGS[arg];
+            return mode ? { mode } : null;
+        },
+        run: async (c, args: { show?: boolean; mode?: ReplyQuoteMode }) => {
+            const groupId = c.groupId!;
+            if (args.show) {
+                const current = pluginState.getReplyQuoteMode(groupId);
+                await sendReply(c.ctx, c.event, `本群自动引用: ${REPLY_QUOTE_LABELS[current]}\n用法: ${c.prefix}群引用 关闭/引用/艾特/全部/默认`);
+                return;
+            }
+
+            pluginState.updateGroupConfig(groupId, { replyQuoteMode: args.mode });
+            await sendReply(c.ctx, c.event, args.mode
+                ? `✅ 本群自动引用已设为: ${REPLY_QUOTE_LABELS[args.mode]}`
+                : `✅ 本群自动引用已恢复默认（${REPLY_QUOTE_LABELS[pluginState.config.replyQuoteMode]}）`);
+        },
+    }),
+    defineCommand<string>({
+        name: '重连',
+        usage: '[名称]',
+        description: '立即重连 GScore（不指定则全部）',
+        permission: 'admin',
+        scope: 'all',
+        run: async (c, name) => {
+            if (!pluginState.config.gscoreEnable) {
+                return void await sendReply(c.ctx, c.event, '❌ GScore 适配未启用，请先在配置中开启');
+            }
+            const { GScoreService } = await import('../services/gscore-service');
+            const affected = GScoreService.getInstance().reconnect(name || undefined);
+            await sendReply(c.ctx, c.event, affected.length > 0
+                ? `🔄 正在重连: ${affected.join(', ')}`
+                : name ? `❌ 连接 ${name} 不存在或未启用` : '❌ 当前没有可操作的连接');
+        },
+    }),
+    defineCommand<string>({
+        name: '断开',
+        usage: '[名称]',
+        description: '断开 GScore 且不自动重连',
+        permission: 'admin',
+        scope: 'all',
+        run: async (c, name) => {
+            const { GScoreService } = await import('../services/gscore-service');
+            const affected = GScoreService.getInstance().stop(name || undefined);
+            await sendReply(c.ctx, c.event, affected.length > 0
+                ? `⏸ 已断开: ${affected.join(', ')}（使用 ${c.prefix}重连 恢复）`
+                : name ? `❌ 连接 ${name} 不存在或未启用` : '❌ 当前没有可操作的连接');
+        },
+    }),
+    defineCommand({
+        name: '权限',
+        usage: '@用户/QQ <等级|重置>',
+        description: '设置用户的 GScore 权限',
+        permission: 'master',
+        scope: 'all',
+        parse: (c) => {
+            // 去掉 CQ 码后，最后一个参数为等级，其余纯数字参数视为 QQ 号
+            const tokens = c.args.replace(/\[CQ:[^\]]*\]/g, ' ').trim().split(/\s+/).filter(Boolean);
+            const level = tokens.pop();
+            const targets = [...new Set([...extractAtTargets(c.event), ...tokens.filter(t => /^\d{5,12}$/.test(t))])];
+            return { level, targets };
+        },
+        run: async (c, { level, targets }: { level?: string; targets: string[] }) => {
+            if (!level || targets.length === 0) {
+                const overrides = Object.entries(pluginState.config.userPmOverrides);
+                const lines = overrides.length > 0
+                    ? overrides.map(([qq, pm]) => `${qq}: ${pm}`)
+                    : ['（暂无单独设置）'];
+                await sendReply(c.ctx, c.event, [`[= 用户权限覆盖 =]`, ...lines, ``, `用法: ${c.prefix}权限 @用户/QQ <等级|重置>`].join('\n'));
+                return;
+            }
+
+            const isReset = level === '重置';
+            const pm = Number(level);
+            if (!isReset && (!Number.isInteger(pm) || pm < 0)) {
+                await sendReply(c.ctx, c.event, '❌ 权限等级需为非负整数，或使用 "重置" 清除单独设置');
+                return;
+            }
+
+            for (const targetId of targets) {
+                pluginState.setUserPmOverride(targetId, isReset ? null : pm);
+            }
+            await sendReply(c.ctx, c.event, isReset
+                ? `✅ 已重置 ${targets.join(', ')} 的 GScore 权限`
+                : `✅ 已将 ${targets.join(', ')} 的 GScore 权限设为 ${pm}`);
+        },
+    }),
+    // 私聊中使用拉黑/取消拉黑/黑名单时操作全局黑名单（私聊中本就仅主人可用）
+    defineCommand({
+        name: '拉黑',
+        usage: '@用户 [时长] [原因]',
+        description: '在本群拉黑用户（不转发其消息），时长如 30m/2h/1d',
+        permission: 'groupAdmin',
+        scope: 'all',
+        run: async (c) => updateBlacklist(c, 'ban', false),
+    }),
+    defineCommand({
+        name: '取消拉黑',
+        usage: '@用户',
+        description: '取消本群拉黑',
+        permission: 'groupAdmin',
+        scope: 'all',
+        run: async (c) => updateBlacklist(c, 'unban', false),
+    }),
+    defineCommand({
+        name: '黑名单',
+        usage: '[页码]',
+        description: '查看本群黑名单',
+        permission: 'groupAdmin',
+        scope: 'all',
+        parse: parsePageArg,
+        run: async (c, page: number) => {
+            await sendReply(c.ctx, c.event, formatBlacklistPage(page, c.prefix, c.groupId));
+        },
+    }),
+    defineCommand({
+        name: '全局拉黑',
+        usage: '@用户/QQ [时长] [原因]',
+        description: '在所有群和私聊中拉黑用户',
+        permission: 'master',
+        scope: 'all',
+        run: async (c) => updateBlacklist(c, 'ban', true),
+    }),
+    defineCommand({
+        name: '全局取消拉黑',
+        usage: '@用户/QQ',
+        description: '取消全局拉黑',
+        permission: 'master',
+        scope: 'all',
+        run: async (c) => updateBlacklist(c, 'unban', true),
+    }),
+    defineCommand({
+        name: '全局黑名单',
+        usage: '[页码]',
+        description: '查看全局黑名单',
+        permission: 'master',
+        scope: 'all',
+        parse: parsePageArg,
+        run: async (c, page: number) => {
+            await sendReply(c.ctx, c.event, formatBlacklistPage(page, c.prefix));
+        },
+    }),
+];
+
+// ==================== 命令分发 ====================
+
+/**
+ * 匹配并执行命令
+ * 命令前缀与命令名之间的空格可有可无；未匹配的消息照常转发到 GScore，与已有命令相近时仅记录日志
+ * @returns 是否已作为命令处理（已处理的消息不再转发到 GScore）
+ */
+export async function dispatchCommand(ctx: NapCatPluginContext, event: OB11Message, rawMessage: string): Promise<boolean> {
+    const prefix = pluginState.config.commandPrefix || '#早柚';
+    if (!rawMessage.startsWith(prefix)) return false;
+
+    const text = rawMessage.slice(prefix.length).trimStart();
+    const matched = matchCommand(text);
+    if (!matched) {
+        // 可能是 GScore 的命令，不拦截
+        const suggestion = suggestCommand(text);
+        if (suggestion) pluginState.logger.debug(`未匹配插件命令 ${prefix}${text.trim()}，相近的命令: ${prefix}${suggestion}`);
+        return false;
+    }
+
+    const { command, name } = matched;
+    const groupId = event.message_type === 'group' && event.group_id ? String(event.group_id) : undefined;
+    const c: CommandContext = {
+        ctx,
+        event,
+        prefix,
+        name,
+        userId: String(event.user_id),
+        groupId,
+        args: text.slice(name.length),
+    };
+
+    if (command.scope === 'group' && !groupId) {
+        await sendReply(ctx, event, '请在群组中使用此命令');
+        return true;
+    }
+    if (command.scope === 'private' && groupId) {
+        await sendReply(ctx, event, '请在私聊中使用此命令');
+        return true;
+    }
+    if (!hasPermission(event, command.permission)) {
+        const required = groupId ? command.permission : 'master';
+        await sendReply(ctx, event, permissionDeniedText(required));
+        return true;
+    }
+
+    const args = command.parse ? command.parse(c) : c.args.trim();
+    if (args === null) {
+        await sendReply(ctx, event, `❌ 参数有误\n用法: ${prefix}${command.name}${command.usage ? ` ${command.usage}` : ''}`);
+        return true;
+    }
+
+    pluginState.logger.debug(`执行命令 ${command.name}，参数: ${c.args.trim()}`);
+    await command.run(c, args);
+    return true;
+}
+
+/**
+ * 生成帮助文本
+ */
+export function buildHelpText(prefix: string): string {
+    const format = (command: CommandDefinition) => {
+        const names = [command.name, ...(command.aliases ?? [])].join('/');
+        const usage = command.usage ? ` ${command.usage}` : '';
+        const note = command.permission === 'master' ? '（仅主人）' : '';
+        return `${prefix}${names}${usage} - ${command.description}${note}`;
+    };
+
+    return [
+        `[= 插件帮助 =]`,
+        ...COMMANDS.filter(c => c.permission === 'everyone').map(format),
+        ``,
+        `[= 管理命令 =]`,
+        ...COMMANDS.filter(c => c.permission !== 'everyone').map(format),
+        ``,
+        `命令前缀与命令名之间可加空格，私聊中管理命令仅主人可用`,
+    ].join('\n');
+}
+
+/**
+ * 按最长前缀匹配命令名或别名（忽略英文大小写）
+ * 命令名后必须是空白、CQ 码或结尾，避免 "状态栏" 匹配到 "状态"、"helpme" 匹配到 "help"
+ */
+function matchCommand(text: string): { command: CommandDefinition; name: string } | null {
+    const lower = text.toLowerCase();
+    let best: { command: CommandDefinition; name: string } | null = null;
+
+    for (const command of COMMANDS) {
+        for (const name of [command.name, ...(command.aliases ?? [])]) {
+            if (!lower.startsWith(name.toLowerCase())) continue;
+            const rest = text.slice(name.length);
+            if (rest && !/^(\s|\[CQ:)/.test(rest)) continue;
+            if (!best || name.length > best.name.length) {
+                best = { command, name: text.slice(0, name.length) };
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * 为未知命令查找编辑距离不超过 2 的已有命令
+ * @returns 最接近的命令名，没有足够接近的命令时返回 null
+ */
+function suggestCommand(text: string): string | null {
+    const input = text.replace(/\[CQ:[^\]]*\]/g, ' ').trim().split(/\s+/)[0]?.toLowerCase() || '';
+    if (!input) return null;
+
+    let best: { name: string; distance: number } | null = null;
+    for (const command of COMMANDS) {
+        for (const name of [command.name, ...(command.aliases ?? [])]) {
+            const distance = levenshtein(input, name.toLowerCase());
+            // 距离需小于命令名长度，避免很短的输入匹配到任意命令
+            if (distance > 2 || distance >= Array.from(name).length) continue;
+            if (!best || distance < best.distance) best = { name: command.name, distance };
+        }
+    }
+    return best?.name ?? null;
+}
+
+/**
+ * 计算编辑距离（按字符而非 UTF-16 码元）
+ */
+function levenshtein(a: string, b: string): number {
+    const s = Array.from(a);
+    const t = Array.from(b);
+    let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= s.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= t.length; j++) {
+            curr[j] = Math.min(
+                prev[j] + 1,
+                curr[j - 1] + 1,
+                prev[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1),
+            );
+        }
+        prev = curr;
+    }
+    return prev[t.length];
+}
+
+// ==================== 权限检查 ====================
+
+/**
+ * 检查是否满足命令所需权限
+ * 规则：
+ * 1. 被拉黑的用户无任何权限
+ * 2. 私聊中仅主人有权限（everyone 除外）
+ * 3. groupAdmin：主人、群主和管理员有权限
+ * 4. admin：设置了主人QQ时仅主人，否则群主和管理员
+ */
+function hasPermission(event: OB11Message, permission: CommandPermission): boolean {
+    if (permission === 'everyone') return true;
+
+    const userId = String(event.user_id);
+    const groupId = event.message_type === 'group' && event.group_id ? String(event.group_id) : undefined;
+    if (pluginState.isBlacklisted(userId, groupId)) return false;
+
+    if (permission === 'master' || !groupId) return pluginState.isMaster(userId);
+    if (permission === 'admin' && pluginState.getMasterQQs().length > 0) return pluginState.isMaster(userId);
+    if (permission === 'groupAdmin' && pluginState.isMaster(userId)) return true;
+
+    const role = (event.sender as Record<string, unknown>)?.role;
+    return role === 'admin' || role === 'owner';
+}
+
+/**
+ * 权限不足时的提示
+ */
+function permissionDeniedText(permission: CommandPermission): string {
+    if (permission === 'master') {
+        return pluginState.getMasterQQs().length === 0
+            ? '❌ 请先在配置中设置主人QQ'
+            : '❌ 没有权限，仅主人可操作';
+    }
+    if (permission === 'groupAdmin') return '❌ 没有权限，仅群主/管理员可操作';
+    return '❌ 没有权限，仅授权用户可操作';
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 解析拉黑命令参数（已去除命令前缀）
+ * 开头的纯数字参数视为 QQ 号；随后的参数为时长时作为拉黑时长，其余作为原因；"永久" 或不填时长为永久拉黑
+ */
+function parseBanArgs(argText: string): { userIds: string[]; duration?: number; reason?: string } {
+    const tokens = argText.replace(/\[CQ:[^\]]*\]/g, ' ').trim().split(/\s+/).filter(Boolean);
+    const userIds: string[] = [];
+    while (tokens.length > 0 && /^\d{5,12}$/.test(tokens[0])) userIds.push(tokens.shift()!);
+    let duration: number | undefined;
+
+    const match = tokens[0]?.match(/^(\d+)([a-zA-Z\u4e00-\u9fa5]+)$/);
+    const unit = match ? DURATION_UNITS[match[2].toLowerCase()] : undefined;
+    if (match && unit) {
+        duration = Number(match[1]) * unit;
+        tokens.shift();
+    } else if (tokens[0] === '永久') {
+        tokens.shift();
+    }
+
+    const reason = tokens.join(' ');
+    return { userIds, duration: duration || undefined, reason: reason || undefined };
+}
+
+/**
+ * 格式化黑名单的指定页（不指定群号时为全局黑名单）
+ */
+function formatBlacklistPage(page: number, prefix: string, groupId?: string): string {
+    const entries = pluginState.getBlacklist(groupId);
+    const title = groupId ? '本群黑名单' : '全局黑名单';
+    if (entries.length === 0) return `${title}为空`;
+
+    const totalPages = Math.ceil(entries.length / BLACKLIST_PAGE_SIZE);
+    const current = Math.min(page, totalPages);
+    const now = Date.now();
+    const lines = entries
+        .slice((current - 1) * BLACKLIST_PAGE_SIZE, current * BLACKLIST_PAGE_SIZE)
+        .map(e => {
+            const remain = e.expiresAt ? `剩余 ${formatDuration(e.expiresAt - now)}` : '永久';
+            const parts = [e.userId, remain];
+            if (e.reason) parts.push(`原因: ${e.reason}`);
+            if (e.operator) parts.push(`操作人: ${e.operator}`);
+            if (e.createdAt) parts.push(new Date(e.createdAt).toLocaleDateString('zh-CN'));
+            return parts.join(' | ');
+        });
+
+    return [
+        `[= ${title} (${current}/${totalPages}，共 ${entries.length} 人) =]`,
+        ...lines,
+        ...(current < totalPages ? [``, `发送 ${prefix}${groupId ? '' : '全局'}黑名单 ${current + 1} 查看下一页`] : []),
+    ].join('\n');
+}
+
+/**
+ * 生成插件状态文本
+ */
+async function buildStatusText(groupId?: string): Promise<string> {
+    const { GScoreService } = await import('../services/gscore-service');
+    const connStatuses = GScoreService.getInstance().getStatuses();
+    const statusMap = {
+        'connected': '✅ 已连接',
+        'connecting': '🔄 连接中',
+        'disconnected': '❌ 未连接'
+    };
+
+    const blacklistCount = pluginState.getBlacklist().length;
+    const groupBlacklistCount = groupId ? pluginState.getBlacklist(groupId).length : 0;
+    return [
+        `[= 插件状态 =]`,
+        `运行时长: ${pluginState.getUptimeFormatted()}`,
+        ...(connStatuses.length > 0
+            ? connStatuses.map(c => {
+                const queueInfo = c.queueDepth > 0 || c.droppedCount > 0
+                    ? ` | 缓存 ${c.queueDepth} 条，已丢弃 ${c.droppedCount} 条`
+                    : '';
+                let stateText: string = statusMap[c.state];
+                if (c.stopped) stateText = '⏸ 已手动断开';
+                else if (c.circuitOpen && c.state === 'disconnected') stateText = '⛔ 熔断中';
+                if (c.nextRetryAt && c.state === 'disconnected') {
+                    stateText += `（${Math.max(0, Math.ceil((c.nextRetryAt - Date.now()) / 1000))} 秒后重试）`;
+                }
+                const latencyInfo = c.state === 'connected' && c.latency !== null && c.lastPongAt !== null
+                    ? ` | 延迟 ${c.latency}ms（${Math.round((Date.now() - c.lastPongAt) / 1000)} 秒前）`
+                    : '';
+                return `GScore[${c.name}]: ${stateText}${latencyInfo}${queueInfo}`;
+            })
+            : ['GScore: ❌ 未启用']),
+        `黑名单人数: 全局 ${blacklistCount}${groupId ? `，本群 ${groupBlacklistCount}` : ''}`,
+        ...(pluginState.config.statsEnable ? [formatTodayStats()] : []),
+        ...(pluginState.config.rateLimitEnable ? [formatRateLimitHits()] : []),
+        formatSendQueueStats(),
+        ...formatLatencyStats(),
+    ].join('\n');
+}
+
+/** 状态中显示延迟的命令数 */
+const LATENCY_TOP_N = 3;
+
+/**
+ * 格式化回复延迟：合计与回复最多的几个命令，没有样本时不显示
+ */
+function formatLatencyStats(): string[] {
+    const stats = latencyTracker.getStats();
+    if (stats.overall.count === 0 && stats.overall.sendP50 === null && stats.timeouts === 0) return [];
+
+    const ms = (value: number | null) => value === null ? '-' : `${value}ms`;
+    const format = (label: string, l: CommandLatency) =>
+        `${label}: 回复 p50 ${ms(l.replyP50)} / p95 ${ms(l.replyP95)} | 发送 p50 ${ms(l.sendP50)} / p95 ${ms(l.sendP95)}`;
+
+    const timeoutText = pluginState.config.latencyReplyTimeout > 0 ? ` | 超时未回复 ${stats.timeouts} 条` : '';
+    return [
+        `回复延迟（等待中 ${stats.pending} 条${timeoutText}）`,
+        format('  全部', stats.overall),
+        ...stats.commands
+            .filter(l => l.count > 0)
+            .slice(0, LATENCY_TOP_N)
+            .map(l => format(`  ${l.command} (${l.count} 次)`, l)),
+    ];
+}
+
+/**
+ * 格式化今日统计（用于状态）
+ */
+function formatTodayStats(): string {
+    const today = usageStats.getToday();
+    return `今日统计: 转发 ${today.forwarded} | 回复 ${today.replies} | 发送失败 ${today.sendFailures}`;
+}
+
+/**
+ * 格式化统计汇总
+ * @param showGroups 是否显示活跃群排行（查看单个群时不需要）
+ */
+function formatStatsSummary(title: string, summary: StatsSummary, showGroups: boolean): string {
+    const top = (counts: Record<string, number>, label: (key: string) => string) => {
+        const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, STATS_TOP_N);
+        return entries.length > 0
+            ? entries.map(([key, n], i) => `${i + 1}. ${label(key)}: ${n} 次`)
+            : ['（暂无数据）'];
+    };
+    const groupLabel = (key: string) => key === PRIVATE_STATS_KEY ? '私聊' : key;
+
+    return [
+        `[= ${title} =]`,
+        `转发 ${summary.forwarded} | 回复 ${summary.replies} | 发送失败 ${summary.sendFailures}`,
+        ...(showGroups ? [``, `活跃群:`, ...top(summary.groups, groupLabel)] : []),
+        ``,
+        `活跃用户:`,
+        ...top(summary.users, key => key),
+        ``,
+        `热门命令:`,
+        ...top(summary.commands, key => key),
+        ``,
+        `回复最多的用户:`,
+        ...top(summary.replyUsers, key => key),
+        ...(showGroups ? [``, `发送失败的群:`, ...top(summary.failureGroups, groupLabel)] : []),
+        ``,
+        `发送失败的用户:`,
+        ...top(summary.failureUsers, key => key),
+    ].join('\n');
+}
+
+/**
+ * 格式化各维度累计触发限流次数
+ */
+function formatRateLimitHits(): string {
+    const hits = rateLimiter.getHits();
+    const parts = (Object.keys(RATE_LIMIT_SCOPE_LABELS) as RateLimitScope[])
+        .map(scope => `${RATE_LIMIT_SCOPE_LABELS[scope]} ${hits[scope]} 次`);
+    return `限流拦截: ${parts.join(' / ')}`;
+}
+
+/**
+ * 格式化发送队列统计
+ */
+function formatSendQueueStats(): string {
+    const stats = sendScheduler.getStats();
+    return `发送队列: 等待 ${stats.pending} | 发送中 ${stats.inFlight} | 已发送 ${stats.sent} | 重试 ${stats.retried} | 失败 ${stats.failed} | 最近排队 ${stats.lastWait}ms`;
+}
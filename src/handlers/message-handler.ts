@@ -2,7 +2,7 @@
  * 消息处理器
  *
  * 处理接收到的 QQ 消息事件，包含：
- * - 命令解析与分发（群开启/关闭、拉黑/取消拉黑、帮助、状态）
+ * - 命令分发（命令定义见 commands.ts）
  * - 消息转发到 GScore
  * - 消息发送工具函数
  */
@@ -10,12 +10,15 @@
 import type { OB11Message, OB11PostSendMsg } from 'napcat-types/napcat-onebot';
 import type { NapCatPluginContext } from 'napcat-types/napcat-onebot/network/plugin/types';
 import { pluginState } from '../core/state';
+import { resolveButtonReply } from '../services/button-menu';
+import { rateLimiter, RATE_LIMIT_SCOPE_LABELS } from '../services/rate-limiter';
+import { dispatchCommand } from './commands';
 
 // ==================== 消息发送工具 ====================
 
 /**
  * 发送消息（通用）
- * 根据消息类型自动发送到群或私聊
+ * 根据消息类型自动发送到群、私聊或频道
  */
 export async function sendReply(
     ctx: NapCatPluginContext,
@@ -23,6 +26,17 @@ export async function sendReply(
     message: OB11PostSendMsg['message']
 ): Promise<boolean> {
     try {
+        if ((event.message_type as string) === 'guild') {
+            // 频道消息走 send_guild_channel_msg，send_msg 不支持频道
+            const raw = event as unknown as { guild_id?: string | number; channel_id?: string | number };
+            await ctx.actions.call('send_guild_channel_msg', {
+                guild_id: String(raw.guild_id),
+                channel_id: String(raw.channel_id),
+                message,
+            }, ctx.adapterName, ctx.pluginManager.config);
+            return true;
+        }
+
         const params: OB11PostSendMsg = {
             message,
             message_type: event.message_type,
@@ -63,34 +77,110 @@ export async function sendGroupMessage(
     }
 }
 
-// ==================== 权限检查 ====================
+// ==================== 会话范围 ====================
+
+/**
+ * 获取消息所在的群级配置范围：群消息为群号，频道消息为子频道 ID，私聊为 undefined
+ * 频道的开关、黑名单、触发规则与限流均按子频道 ID 配置
+ */
+function getMessageScope(event: OB11Message): string | undefined {
+    if (event.message_type === 'group') return event.group_id ? String(event.group_id) : undefined;
+    if ((event.message_type as string) === 'guild') {
+        const channelId = (event as unknown as { channel_id?: string | number }).channel_id;
+        return channelId ? String(channelId) : undefined;
+    }
+    return undefined;
+}
+
+// ==================== 触发过滤 ====================
+
+/** 已提示过的无效正则，避免重复输出日志 */
+const invalidTriggerRegexes = new Set<string>();
 
 /**
- * 检查是否有权限执行管理命令
- * 规则：
- * 1. 如果配置了 masterQQ，仅 masterQQ 有权限
- * 2. 如果未配置 masterQQ，仅群主和管理员有权限
- * 3. 被拉黑的用户无任何权限
+ * 检查消息是否可能是 GScore 命令
+ * 要求 @机器人 时必须 @ 了机器人；设置了前缀或正则时，去掉 @ 后的文本需匹配其一
  */
-function checkPermission(event: OB11Message): boolean {
+function matchesTrigger(event: OB11Message): boolean {
+    const trigger = pluginState.getTriggerConfig(getMessageScope(event));
+
+    if (trigger.requireMention) {
+        const selfId = String(pluginState.selfId || event.self_id || '');
+        if (!extractAtTargets(event).includes(selfId)) return false;
+    }
+
+    if (trigger.prefixes.length === 0 && !trigger.regex) return true;
+
+    const text = extractPlainText(event);
+    if (trigger.prefixes.some(p => text.startsWith(p))) return true;
+
+    if (trigger.regex) {
+        try {
+            if (new RegExp(trigger.regex).test(text)) return true;
+        } catch (error) {
+            if (!invalidTriggerRegexes.has(trigger.regex)) {
+                invalidTriggerRegexes.add(trigger.regex);
+                pluginState.logger.warn(`触发正则 ${trigger.regex} 无效:`, error);
+            }
+        }
+    }
+    return false;
+}
+
+// ==================== 转发限流 ====================
+
+/**
+ * 检查转发限流，被限流时按提示间隔发送冷却提示
+ * 主人不受限流限制
+ * @returns 是否允许转发
+ */
+async function checkRateLimit(ctx: NapCatPluginContext, event: OB11Message): Promise<boolean> {
+    if (!pluginState.config.rateLimitEnable) return true;
+
     const userId = String(event.user_id);
+    if (pluginState.isMaster(userId)) return true;
 
-    // 检查黑名单
-    if (pluginState.isBlacklisted(userId)) {
-        return false;
+    const groupId = getMessageScope(event);
+    const scope = rateLimiter.consume(userId, groupId);
+    if (!scope) return true;
+
+    pluginState.logger.debug(`用户 ${userId} 触发${RATE_LIMIT_SCOPE_LABELS[scope]}限流，消息未转发`);
+    const notice = pluginState.config.rateLimitNotice;
+    if (notice && rateLimiter.shouldNotify(userId, groupId)) {
+        await sendReply(ctx, event, notice);
     }
+    return false;
+}
+
+// ==================== 未开通群处理 ====================
 
-    const masterQQ = pluginState.config.masterQQ;
-    // 设置了主人QQ
-    if (masterQQ && String(masterQQ).trim().length > 0) {
-        const masterQQs = String(masterQQ).split(',').map(qq => qq.trim());
-        return masterQQs.includes(String(event.user_id));
+/** 本次运行中已处理过的未开通群，避免重复提示/退群 */
+const handledUnapprovedGroups = new Set<string>();
+
+/**
+ * 白名单模式下处理未开通群的消息：按配置发送一次提示或退群
+ * 主人发言不会触发退群，便于主人在群内直接开通
+ */
+async function handleUnapprovedGroup(ctx: NapCatPluginContext, event: OB11Message): Promise<void> {
+    const action = pluginState.config.unapprovedGroupAction;
+    const groupId = String(event.group_id);
+    if (action === 'none' || handledUnapprovedGroups.has(groupId)) return;
+    if (pluginState.isMaster(String(event.user_id))) return;
+
+    handledUnapprovedGroups.add(groupId);
+    const notice = pluginState.config.unapprovedGroupNotice;
+    if (notice) {
+        await sendGroupMessage(ctx, groupId, notice);
     }
 
-    // 私聊直接通过
-    if (event.message_type !== 'group') return true;
-    const role = (event.sender as Record<string, unknown>)?.role;
-    return role === 'admin' || role === 'owner';
+    if (action === 'leave') {
+        try {
+            await ctx.actions.call('set_group_leave', { group_id: groupId }, ctx.adapterName, ctx.pluginManager.config);
+            pluginState.logger.info(`群 ${groupId} 未开通，已自动退群`);
+        } catch (error) {
+            pluginState.logger.error(`退出未开通群 ${groupId} 失败:`, error);
+        }
+    }
 }
 
 // ==================== 消息处理主函数 ====================
@@ -100,158 +190,68 @@ function checkPermission(event: OB11Message): boolean {
  */
 export async function handleMessage(ctx: NapCatPluginContext, event: OB11Message): Promise<void> {
     try {
-        const rawMessage = event.raw_message || '';
+        let rawMessage = event.raw_message || '';
         const messageType = event.message_type;
         const groupId = event.group_id;
         const userId = event.user_id;
+        const scope = getMessageScope(event);
 
         // ==================== 黑名单检查 ====================
-        if (pluginState.isBlacklisted(String(userId))) {
+        if (pluginState.isBlacklisted(String(userId), scope)) {
             pluginState.ctx.logger.debug(`用户 ${userId} 在黑名单中，已忽略其消息`);
             return;
         }
 
         pluginState.ctx.logger.debug(`收到消息: ${rawMessage} | 类型: ${messageType}`);
 
-        // ==================== 统一命令前缀 ====================
-        const prefix = pluginState.config.commandPrefix || '#早柚';
-
-        // --- 群开启/关闭命令 ---
-        if (rawMessage === `${prefix}群开启` || rawMessage === `${prefix}群启用`) {
-            if (!groupId) return void await sendReply(ctx, event, '请在群组中使用此命令');
-            if (!checkPermission(event)) return void await sendReply(ctx, event, '❌ 没有权限，仅授权用户可操作');
-
-            pluginState.updateGroupConfig(String(groupId), { enabled: true });
-            await sendReply(ctx, event, '✅ 本群早柚核心适配已开启');
-            return;
-        }
-
-        if (rawMessage === `${prefix}群关闭` || rawMessage === `${prefix}群禁用`) {
-            if (!groupId) return void await sendReply(ctx, event, '请在群组中使用此命令');
-            if (!checkPermission(event)) return void await sendReply(ctx, event, '❌ 没有权限，仅授权用户可操作');
-
-            pluginState.updateGroupConfig(String(groupId), { enabled: false });
-            await sendReply(ctx, event, '🚫 本群早柚核心适配已关闭');
-            return;
-        }
-
-        // --- 拉黑/取消拉黑命令 ---
-        if (rawMessage.startsWith(`${prefix}拉黑`)) {
-            if (!groupId) return void await sendReply(ctx, event, '请在群组中使用此命令');
-            if (!checkPermission(event)) return void await sendReply(ctx, event, '❌ 没有权限，仅授权用户可操作');
-
-            const atTargets = extractAtTargets(event);
-            if (atTargets.length === 0) {
-                await sendReply(ctx, event, '❌ 请 @要拉黑的用户');
-                return;
-            }
-
-            const results: string[] = [];
-            const operatorId = String(event.user_id);
-
-            for (const targetId of atTargets) {
-                // 阻止拉黑自己
-                if (targetId === operatorId) {
-                    results.push('❌ 你不能拉黑你自己！');
-                    continue;
-                }
-
-                if (pluginState.isBlacklisted(targetId)) {
-                    results.push(`⚠️ 用户 ${targetId} 已在黑名单中`);
-                } else {
-                    pluginState.addToBlacklist(targetId);
-                    results.push(`✅ 已拉黑用户 ${targetId}`);
-                }
-            }
-            await sendReply(ctx, event, results.join('\n'));
-            return;
+        // ==================== 按钮菜单序号 ====================
+        // 用户回复序号时替换为对应按钮的命令再转发
+        const buttonCommand = resolveButtonReply(
+            scope,
+            String(userId),
+            rawMessage.trim()
+        );
+        if (buttonCommand) {
+            pluginState.logger.debug(`序号 ${rawMessage.trim()} 已转换为按钮命令: ${buttonCommand}`);
+            rawMessage = buttonCommand;
+            event = {
+                ...event,
+                raw_message: buttonCommand,
+                message: [{ type: 'text', data: { text: buttonCommand } }],
+            } as OB11Message;
         }
 
-        if (rawMessage.startsWith(`${prefix}取消拉黑`)) {
-            if (!groupId) return void await sendReply(ctx, event, '请在群组中使用此命令');
-            if (!checkPermission(event)) return void await sendReply(ctx, event, '❌ 没有权限，仅授权用户可操作');
-
-            const atTargets = extractAtTargets(event);
-            if (atTargets.length === 0) {
-                await sendReply(ctx, event, '❌ 请 @要取消拉黑的用户');
-                return;
-            }
-
-            const results: string[] = [];
-            for (const targetId of atTargets) {
-                if (!pluginState.isBlacklisted(targetId)) {
-                    results.push(`⚠️ 用户 ${targetId} 不在黑名单中`);
-                } else {
-                    pluginState.removeFromBlacklist(targetId);
-                    results.push(`✅ 已取消拉黑用户 ${targetId}`);
-                }
-            }
-            await sendReply(ctx, event, results.join('\n'));
-            return;
-        }
+        // ==================== 命令处理 ====================
+        if (await dispatchCommand(ctx, event, rawMessage)) return;
 
         // ==================== 消息转发逻辑 ====================
+        let shouldForward = false;
         if (!pluginState.config.gscoreEnable) {
             // 全局 GScore 未启用，跳过转发
         } else if (messageType === 'group' && groupId) {
             // 群消息：检查群开关后转发
-            if (pluginState.isGroupEnabled(String(groupId))) {
-                import('../services/gscore-service').then(({ GScoreService }) => {
-                    GScoreService.getInstance().forwardMessage(event);
-                });
+            shouldForward = pluginState.isGroupEnabled(String(groupId));
+            if (!shouldForward && pluginState.isGroupUnapproved(String(groupId))) {
+                await handleUnapprovedGroup(ctx, event);
             }
         } else if (messageType === 'private') {
-            // 私聊消息：直接转发到 GScore
-            import('../services/gscore-service').then(({ GScoreService }) => {
-                GScoreService.getInstance().forwardMessage(event);
-            });
+            // 私聊消息（含群临时会话）：直接转发到 GScore
+            shouldForward = true;
+        } else if ((messageType as string) === 'guild') {
+            // 频道消息（仅部分 OneBot 实现提供）：按子频道 ID 检查开关
+            shouldForward = !!scope && pluginState.isGroupEnabled(scope);
         }
 
-        // ==================== 命令处理 ====================
-        if (!rawMessage.startsWith(prefix)) return;
-
-        const args = rawMessage.slice(prefix.length).trim().split(/\s+/);
-        const subCommand = args[0]?.toLowerCase() || '';
-
-        switch (subCommand) {
-            case 'help': {
-                const helpText = [
-                    `[= 插件帮助 =]`,
-                    `${prefix} help - 显示帮助信息`,
-                    `${prefix} status - 查看连接器状态`,
-                    ``,
-                    `[= 管理命令 (前缀: ${prefix}) =]`,
-                    `${prefix}群开启/群启用 - 开启本群早柚核心`,
-                    `${prefix}群关闭/群禁用 - 关闭本群早柚核心`,
-                    `${prefix}拉黑 @用户 - 拉黑用户（不转发其消息）`,
-                    `${prefix}取消拉黑 @用户 - 取消拉黑用户`,
-                ].join('\n');
-                await sendReply(ctx, event, helpText);
-                break;
-            }
-
-            case 'status': {
-                const { GScoreService } = await import('../services/gscore-service');
-                const gscoreStatus = GScoreService.getInstance().getStatus();
-                const statusMap = {
-                    'connected': '✅ 已连接',
-                    'connecting': '🔄 连接中',
-                    'disconnected': '❌ 未连接'
-                };
-
-                const blacklistCount = pluginState.config.blacklist.length;
-                const statusText = [
-                    `[= 插件状态 =]`,
-                    `运行时长: ${pluginState.getUptimeFormatted()}`,
-                    `GScore: ${statusMap[gscoreStatus]}`,
-                    `黑名单人数: ${blacklistCount}`,
-                ].join('\n');
-                await sendReply(ctx, event, statusText);
-                break;
-            }
+        // 按钮序号转换后的命令不再经过触发过滤
+        if (shouldForward && !buttonCommand && !matchesTrigger(event)) {
+            pluginState.logger.debug('消息未匹配触发规则，不转发');
+            shouldForward = false;
+        }
 
-            default:
-                break;
+        if (shouldForward && await checkRateLimit(ctx, event)) {
+            import('../services/gscore-service').then(({ GScoreService }) => {
+                GScoreService.getInstance().forwardMessage(event);
+            });
         }
     } catch (error) {
         pluginState.logger.error('处理消息时出错:', error);
@@ -260,11 +260,25 @@ export async function handleMessage(ctx: NapCatPluginContext, event: OB11Message
 
 // ==================== 工具函数 ====================
 
+/**
+ * 提取消息中的纯文本（忽略 @、图片等非文本段）
+ */
+function extractPlainText(event: OB11Message): string {
+    const message = event.message;
+    if (!message || !Array.isArray(message)) return (event.raw_message || '').trim();
+
+    return message
+        .filter(seg => seg.type === 'text')
+        .map(seg => String((seg.data as Record<string, unknown>)?.text || ''))
+        .join('')
+        .trim();
+}
+
 /**
  * 从 OB11 消息段中提取所有 @目标的 QQ 号
  * 排除 @全体成员（qq === 'all'）
  */
-function extractAtTargets(event: OB11Message): string[] {
+export function extractAtTargets(event: OB11Message): string[] {
     const targets: string[] = [];
     const message = event.message;
     if (!message || !Array.isArray(message)) return targets;
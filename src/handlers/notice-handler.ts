@@ -0,0 +1,122 @@
+/**
+ * 通知/请求事件处理器
+ *
+ * 将选定的 OneBot 通知与请求事件（戳一戳、群成员增减、好友添加、好友/加群申请）
+ * 转换为 GScore MessageReceive 转发，每种事件可单独开关。
+ *
+ * 转发的 content 第一段为固定关键词文本（见 NOTICE_KEYWORDS），便于 GScore 插件按命令匹配；
+ * 第二段为 type 为 notice 的原始事件字段，供需要详细信息（如申请附言）的插件读取。
+ */
+
+import type { NapCatPluginContext } from 'napcat-types/napcat-onebot/network/plugin/types';
+import { pluginState } from '../core/state';
+import type { GsCoreMessage, PluginConfig } from '../types';
+
+/**
+ * 通知/请求事件中用到的字段
+ */
+export interface OB11NoticeEvent {
+    post_type: string;
+    notice_type?: string;
+    request_type?: string;
+    sub_type?: string;
+    group_id?: number | string;
+    user_id?: number | string;
+    target_id?: number | string;
+    operator_id?: number | string;
+    comment?: string;
+    flag?: string;
+}
+
+/** 支持转发的事件类型 */
+type NoticeKind = 'poke' | 'group_increase' | 'group_decrease' | 'friend_add' | 'friend_request' | 'group_request';
+
+/** 事件类型 → 转发时的关键词 */
+const NOTICE_KEYWORDS: Record<NoticeKind, string> = {
+    poke: '戳一戳',
+    group_increase: '群成员增加',
+    group_decrease: '群成员减少',
+    friend_add: '好友添加',
+    friend_request: '好友申请',
+    group_request: '加群申请',
+};
+
+/** 事件类型 → 开关配置项 */
+const NOTICE_TOGGLES: Record<NoticeKind, keyof PluginConfig> = {
+    poke: 'forwardPoke',
+    group_increase: 'forwardGroupIncrease',
+    group_decrease: 'forwardGroupDecrease',
+    friend_add: 'forwardFriendAdd',
+    friend_request: 'forwardFriendRequest',
+    group_request: 'forwardGroupRequest',
+};
+
+/**
+ * 识别事件类型，不支持的事件返回 null
+ */
+function resolveNoticeKind(event: OB11NoticeEvent): NoticeKind | null {
+    if (event.post_type === 'notice') {
+        if (event.notice_type === 'notify' && event.sub_type === 'poke') return 'poke';
+        if (event.notice_type === 'group_increase') return 'group_increase';
+        if (event.notice_type === 'group_decrease') return 'group_decrease';
+        if (event.notice_type === 'friend_add') return 'friend_add';
+    } else if (event.post_type === 'request') {
+        if (event.request_type === 'friend') return 'friend_request';
+        if (event.request_type === 'group') return 'group_request';
+    }
+    return null;
+}
+
+/**
+ * 通知/请求事件处理主函数
+ */
+export async function handleNoticeEvent(ctx: NapCatPluginContext, event: OB11NoticeEvent): Promise<void> {
+    try {
+        if (!pluginState.config.gscoreEnable) return;
+
+        const kind = resolveNoticeKind(event);
+        if (!kind || pluginState.config[NOTICE_TOGGLES[kind]] !== true) return;
+
+        const userId = event.user_id ? String(event.user_id) : '';
+        const selfId = String(pluginState.selfId || '');
+        if (!userId || userId === selfId) return;
+
+        // 只转发戳机器人的戳一戳
+        if (kind === 'poke' && String(event.target_id ?? '') !== selfId) return;
+
+        // 群邀请（机器人被邀请入群）按私聊转发，其余群事件需本群已启用
+        const groupId = event.group_id && !(kind === 'group_request' && event.sub_type === 'invite')
+            ? String(event.group_id)
+            : undefined;
+        if (groupId && !pluginState.isGroupEnabled(groupId)) return;
+
+        if (pluginState.isBlacklisted(userId, groupId)) {
+            pluginState.logger.debug(`用户 ${userId} 在黑名单中，已忽略其 ${NOTICE_KEYWORDS[kind]} 事件`);
+            return;
+        }
+
+        const content: GsCoreMessage[] = [
+            { type: 'text', data: NOTICE_KEYWORDS[kind] },
+            {
+                type: 'notice',
+                data: {
+                    post_type: event.post_type,
+                    notice_type: event.notice_type ?? null,
+                    request_type: event.request_type ?? null,
+                    sub_type: event.sub_type ?? null,
+                    group_id: event.group_id ? String(event.group_id) : null,
+                    user_id: userId,
+                    target_id: event.target_id ? String(event.target_id) : null,
+                    operator_id: event.operator_id ? String(event.operator_id) : null,
+                    comment: event.comment ?? null,
+                    flag: event.flag ?? null,
+                },
+            },
+        ];
+
+        const { GScoreService } = await import('../services/gscore-service');
+        GScoreService.getInstance().forwardEvent({ userId, groupId, content });
+    } catch (error) {
+        pluginState.logger.error('处理通知事件时出错:', error);
+    }
+}
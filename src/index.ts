@@ -29,6 +29,14 @@ import { EventType } from 'napcat-types/napcat-onebot/event/index';
 import { buildConfigSchema } from './config';
 import { pluginState } from './core/state';
 import { handleMessage } from './handlers/message-handler';
+import { handleNoticeEvent, type OB11NoticeEvent } from './handlers/notice-handler';
+import { messageContext } from './core/message-context';
+import { clearButtonMenus } from './services/button-menu';
+import { rateLimiter } from './services/rate-limiter';
+import { sendScheduler } from './services/send-scheduler';
+import { usageStats } from './core/stats';
+import { latencyTracker } from './services/latency-tracker';
+import { alertNotifier } from './services/alert-notifier';
 import type { PluginConfig } from './types';
 
 // ==================== 配置 UI Schema ====================
@@ -46,6 +54,7 @@ export const plugin_init: PluginModule['plugin_init'] = async (ctx) => {
     try {
         // 加载配置
         await pluginState.init(ctx);
+        usageStats.load();
 
         ctx.logger.info('插件初始化中...');
 
@@ -65,23 +74,34 @@ export const plugin_init: PluginModule['plugin_init'] = async (ctx) => {
 
 /**
  * 消息处理
- * 收到事件时调用，仅处理消息事件
+ * 收到事件时调用，消息事件交给消息处理器，通知/请求事件按配置转发到 GScore
  */
 export const plugin_onmessage: PluginModule['plugin_onmessage'] = async (ctx, event) => {
-    if (event.post_type !== EventType.MESSAGE) return;
     if (!pluginState.config.enabled) return;
-    await handleMessage(ctx, event);
+    if (event.post_type === EventType.MESSAGE) {
+        await handleMessage(ctx, event);
+        return;
+    }
+    await handleNoticeEvent(ctx, event as unknown as OB11NoticeEvent);
 };
 
 /**
  * 插件卸载/重载
- * 断开 GScore 连接，保存配置
+ * 断开 GScore 连接，保存配置与统计数据
  */
 export const plugin_cleanup: PluginModule['plugin_cleanup'] = async (ctx) => {
     try {
         const { GScoreService } = await import('./services/gscore-service');
         GScoreService.getInstance().disconnect();
 
+        messageContext.clear();
+        clearButtonMenus();
+        rateLimiter.reset();
+        sendScheduler.clear();
+        latencyTracker.reset();
+        alertNotifier.reset();
+        usageStats.save();
+        usageStats.clear();
         pluginState.cleanup();
         ctx.logger.info('插件已卸载');
     } catch (e) {
@@ -105,19 +125,20 @@ export const plugin_set_config: PluginModule['plugin_set_config'] = async (ctx,
 
     // 检查 GScore 相关配置是否变更，若变更则重连
     const newConfig = pluginState.config;
-    const gscoreKeys: (keyof PluginConfig)[] = ['gscoreUrl', 'gscoreToken', 'gscoreEnable', 'reconnectInterval', 'maxReconnectAttempts'];
+    const gscoreKeys: (keyof PluginConfig)[] = ['gscoreUrl', 'gscoreToken', 'gscoreEnable', 'reconnectInterval', 'maxReconnectAttempts', 'gscoreConnections', 'heartbeatInterval', 'heartbeatMaxMissed'];
+    const heartbeatKeys: (keyof PluginConfig)[] = ['heartbeatInterval', 'heartbeatMaxMissed'];
 
-    const needsReconnect = gscoreKeys.some(k => oldConfig[k] !== newConfig[k]);
+    const needsReconnect = gscoreKeys.some(k => JSON.stringify(oldConfig[k]) !== JSON.stringify(newConfig[k]));
 
     if (needsReconnect) {
-        ctx.logger.info('检测到 GScore 配置变更，正在重新连接...');
+        ctx.logger.info('检测到 GScore 配置变更，正在同步连接...');
         try {
             const { GScoreService } = await import('./services/gscore-service');
 
-            GScoreService.getInstance().disconnect();
-
-            if (newConfig.gscoreEnable) {
-                GScoreService.getInstance().connect();
+            // connect() 只重连新增或地址/Token 变更的连接，未启用时断开全部
+            GScoreService.getInstance().connect();
+            if (heartbeatKeys.some(k => oldConfig[k] !== newConfig[k])) {
+                GScoreService.getInstance().refreshHeartbeats();
             }
         } catch (e) {
             ctx.logger.error('配置变更后重连失败:', e);
@@ -137,15 +158,14 @@ export const plugin_on_config_change: PluginModule['plugin_on_config_change'] =
         ctx.logger.debug(`配置项 ${key} 已更新`);
 
         // GScore 相关配置变更处理
-        const gscoreKeys = ['gscoreUrl', 'gscoreToken', 'gscoreEnable', 'reconnectInterval', 'maxReconnectAttempts'];
+        const gscoreKeys = ['gscoreUrl', 'gscoreToken', 'gscoreEnable', 'reconnectInterval', 'maxReconnectAttempts', 'gscoreConnections', 'heartbeatInterval', 'heartbeatMaxMissed'];
         if (gscoreKeys.includes(key)) {
             const { GScoreService } = await import('./services/gscore-service');
 
-            if (pluginState.config.gscoreEnable) {
-                GScoreService.getInstance().disconnect();
-                GScoreService.getInstance().connect();
-            } else {
-                GScoreService.getInstance().disconnect();
+            // connect() 只重连新增或地址/Token 变更的连接，未启用时断开全部
+            GScoreService.getInstance().connect();
+            if (key === 'heartbeatInterval' || key === 'heartbeatMaxMissed') {
+                GScoreService.getInstance().refreshHeartbeats();
             }
         }
     } catch (err) {
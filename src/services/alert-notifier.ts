@@ -0,0 +1,165 @@
+import type { OB11PostSendMsg } from 'napcat-types/napcat-onebot';
+import { pluginState } from '../core/state';
+import { sendScheduler } from './send-scheduler';
+
+/** GScore 日志级别 → 严重程度 */
+const LOG_LEVEL_RANK: Record<string, number> = {
+  debug: 0,
+  trace: 0,
+  info: 1,
+  success: 1,
+  warning: 2,
+  error: 3,
+  critical: 4,
+};
+
+/** 最多记录的告警键数，超出时清理已过静默期的记录 */
+const MAX_ALERT_KEYS = 200;
+/** 单条告警的最大长度 */
+const MAX_ALERT_LENGTH = 500;
+
+/**
+ * 同一告警的发送记录
+ */
+interface AlertRecord {
+  lastSentAt: number;
+  /** 静默期内被合并的次数 */
+  suppressed: number;
+}
+
+/**
+ * 告警通知
+ * 连接断开超过宽限期、恢复连接、重连次数耗尽以及 GScore 的高级别日志，
+ * 私聊通知主人或发送到运维群。同一告警在静默期内只发送一次，下次发送时附带期间重复的次数
+ */
+class AlertNotifier {
+  private records: Map<string, AlertRecord> = new Map();
+  /** 等待宽限期结束的断线检查 */
+  private pendingDisconnects: Map<string, NodeJS.Timeout> = new Map();
+  /** 已发送断线告警的连接，恢复时发送恢复通知 */
+  private reportedDown: Set<string> = new Set();
+
+  /**
+   * 连接断开：宽限期结束后仍未恢复则告警
+   * @param isStillDown 宽限期结束时检查连接是否仍处于断开状态
+   */
+  onDisconnected(name: string, isStillDown: () => boolean): void {
+    if (!pluginState.config.alertEnable || this.pendingDisconnects.has(name) || this.reportedDown.has(name)) return;
+
+    const grace = Math.max(pluginState.config.alertDisconnectGrace || 0, 0);
+    this.pendingDisconnects.set(name, setTimeout(() => {
+      this.pendingDisconnects.delete(name);
+      if (!isStillDown()) return;
+      this.reportedDown.add(name);
+      this.notify(`down:${name}`, `⚠️ GScore 连接 ${name} 已断开超过 ${grace} 秒，正在尝试重连`);
+    }, grace * 1000));
+  }
+
+  /**
+   * 连接成功：取消等待中的断线告警，已告警过的发送恢复通知
+   */
+  onConnected(name: string): void {
+    this.cancelPending(name);
+    if (!this.reportedDown.delete(name)) return;
+    this.notify(`up:${name}`, `✅ GScore 连接 ${name} 已恢复`);
+  }
+
+  /**
+   * 重连次数耗尽，进入熔断状态
+   */
+  onRetryExhausted(name: string, attempts: number): void {
+    if (!pluginState.config.alertEnable) return;
+    this.reportedDown.add(name);
+    this.notify(`circuit:${name}`, `🚨 GScore 连接 ${name} 重连 ${attempts} 次均失败，已进入熔断状态并改为低频探测，可使用 "${pluginState.config.commandPrefix}重连" 立即重试`);
+  }
+
+  /**
+   * GScore 发来的日志帧，达到配置级别时告警
+   */
+  onGScoreLog(name: string, level: string, text: string): void {
+    const threshold = pluginState.config.alertLogLevel;
+    if (!pluginState.config.alertEnable || threshold === 'off') return;
+    if ((LOG_LEVEL_RANK[level] ?? 0) < LOG_LEVEL_RANK[threshold]) return;
+    // 相同内容的日志视为同一告警
+    this.notify(`log:${name}:${level}:${text.slice(0, 100)}`, `📋 GScore ${name} [${level}] ${text}`);
+  }
+
+  /**
+   * 取消连接的断线检查（手动断开、插件停用时调用）
+   */
+  cancelPending(name: string): void {
+    const timer = this.pendingDisconnects.get(name);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingDisconnects.delete(name);
+    }
+  }
+
+  /** 清空所有状态 */
+  reset(): void {
+    for (const timer of this.pendingDisconnects.values()) clearTimeout(timer);
+    this.pendingDisconnects.clear();
+    this.reportedDown.clear();
+    this.records.clear();
+  }
+
+  /**
+   * 按静默期去重后发送告警
+   */
+  private notify(key: string, text: string): void {
+    const now = Date.now();
+    const quiet = Math.max(pluginState.config.alertQuietPeriod || 0, 0) * 1000;
+    const record = this.records.get(key);
+    if (record && now - record.lastSentAt < quiet) {
+      record.suppressed++;
+      pluginState.logger.debug(`[告警] 静默期内已合并: ${text}`);
+      return;
+    }
+
+    const repeated = record?.suppressed ? `\n（静默期内重复 ${record.suppressed} 次）` : '';
+    this.records.delete(key);
+    this.records.set(key, { lastSentAt: now, suppressed: 0 });
+    this.prune(now, quiet);
+
+    const message = `${text.length > MAX_ALERT_LENGTH ? `${text.slice(0, MAX_ALERT_LENGTH)}…` : text}${repeated}`;
+    this.send(message);
+  }
+
+  /**
+   * 发送到运维群，未配置时私聊所有主人
+   */
+  private send(text: string): void {
+    const message = [{ type: 'text', data: { text } }] as OB11PostSendMsg['message'];
+    const groupId = pluginState.config.alertGroupId.trim();
+    const targets: OB11PostSendMsg[] = groupId
+      ? [{ message, message_type: 'group', group_id: groupId }]
+      : pluginState.getMasterQQs().map(qq => ({ message, message_type: 'private', user_id: qq }));
+
+    if (targets.length === 0) {
+      pluginState.logger.warn(`[告警] 未设置主人QQ或告警群，无法发送: ${text}`);
+      return;
+    }
+
+    const ctx = pluginState.ctx;
+    for (const params of targets) {
+      const target = params.message_type === 'group' ? `group:${params.group_id}` : `private:${params.user_id}`;
+      sendScheduler.schedule(target, async () => {
+        await ctx.actions.call('send_msg', params, ctx.adapterName, ctx.pluginManager.config);
+      }).catch(error => pluginState.logger.error(`[告警] 发送到 ${target} 失败:`, error));
+    }
+  }
+
+  /**
+   * 清理已过静默期的记录
+   */
+  private prune(now: number, quiet: number): void {
+    if (this.records.size <= MAX_ALERT_KEYS) return;
+    for (const [key, record] of this.records) {
+      if (this.records.size <= MAX_ALERT_KEYS && now - record.lastSentAt < quiet) break;
+      this.records.delete(key);
+    }
+  }
+}
+
+/** 导出全局单例 */
+export const alertNotifier = new AlertNotifier();
@@ -0,0 +1,122 @@
+import { pluginState } from '../core/state';
+
+/**
+ * GsCore Button 结构（仅列出适配器使用的字段）
+ */
+interface GsCoreButton {
+  text: string;
+  data: string;
+  /** 0 跳转链接，1 回调，2 指令，-1 自动 */
+  action?: number;
+  prefix?: string;
+}
+
+/**
+ * 待选择的按钮菜单
+ */
+interface PendingMenu {
+  /** 序号（从 1 开始）对应的命令 */
+  commands: string[];
+  expiresAt: number;
+}
+
+/** 按 "群号:QQ" 或 "private:QQ" 保存的待选择菜单 */
+const pendingMenus: Map<string, PendingMenu> = new Map();
+
+function menuKey(groupId: string | undefined, userId: string): string {
+  return `${groupId || 'private'}:${userId}`;
+}
+
+/**
+ * 将 buttons 段数据展开为按钮列表
+ * data 可能是 Button[]，也可能是按行分组的 Button[][]
+ */
+function flattenButtons(data: unknown): GsCoreButton[] {
+  if (!Array.isArray(data)) return [];
+  const result: GsCoreButton[] = [];
+  for (const item of data) {
+    if (Array.isArray(item)) {
+      result.push(...flattenButtons(item));
+    } else if (item && typeof item === 'object') {
+      const btn = item as Record<string, unknown>;
+      if (typeof btn.text === 'string' && typeof btn.data === 'string') {
+        result.push({
+          text: btn.text,
+          data: btn.data,
+          action: typeof btn.action === 'number' ? btn.action : -1,
+          prefix: typeof btn.prefix === 'string' ? btn.prefix : '',
+        });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 将按钮渲染为文字菜单
+ * 指令按钮编号显示，回复编号即可触发；跳转按钮直接显示链接
+ * @returns 菜单文本与编号对应的命令，没有可渲染的按钮时返回 null
+ */
+export function renderButtonMenu(buttonsData: unknown[]): { text: string; commands: string[] } | null {
+  const buttons = buttonsData.flatMap(flattenButtons);
+  if (buttons.length === 0) return null;
+
+  const lines: string[] = [];
+  const commands: string[] = [];
+  for (const btn of buttons) {
+    if (btn.action === 0) {
+      lines.push(`🔗 ${btn.text}: ${btn.data}`);
+      continue;
+    }
+    const command = btn.prefix && !btn.data.startsWith(btn.prefix) ? `${btn.prefix}${btn.data}` : btn.data;
+    commands.push(command);
+    lines.push(`[${commands.length}] ${btn.text}`);
+  }
+
+  if (commands.length > 0) {
+    lines.push('回复序号即可执行对应操作');
+  }
+  return { text: lines.join('\n'), commands };
+}
+
+/**
+ * 记录用户的待选择菜单，新菜单会覆盖旧菜单
+ */
+export function rememberButtonMenu(groupId: string | undefined, userId: string, commands: string[]): void {
+  const timeout = pluginState.config.buttonMenuTimeout ?? 0;
+  if (commands.length === 0 || timeout <= 0) return;
+
+  pendingMenus.set(menuKey(groupId, userId), {
+    commands,
+    expiresAt: Date.now() + timeout * 1000,
+  });
+
+  // 顺带清理过期菜单
+  const now = Date.now();
+  for (const [key, menu] of pendingMenus) {
+    if (menu.expiresAt < now) pendingMenus.delete(key);
+  }
+}
+
+/**
+ * 将用户回复的序号转换为按钮命令
+ * @returns 对应的命令，不是有效序号或菜单已过期时返回 null
+ */
+export function resolveButtonReply(groupId: string | undefined, userId: string, text: string): string | null {
+  if (!/^\d{1,2}$/.test(text)) return null;
+
+  const key = menuKey(groupId, userId);
+  const menu = pendingMenus.get(key);
+  if (!menu) return null;
+  if (menu.expiresAt < Date.now()) {
+    pendingMenus.delete(key);
+    return null;
+  }
+
+  return menu.commands[Number(text) - 1] ?? null;
+}
+
+/** 清空所有待选择菜单 */
+export function clearButtonMenus(): void {
+  pendingMenus.clear();
+}
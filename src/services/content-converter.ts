@@ -0,0 +1,193 @@
+import type { OB11Message } from 'napcat-types/napcat-onebot';
+import { pluginState } from '../core/state';
+import { QQ_FACE_NAMES } from './qq-faces';
+import { createInlineBudget, resolveInboundMedia, type InlineBudget } from './media-resolver';
+
+/**
+ * OB11 消息段
+ */
+export type OB11Segment = { type: string; data: Record<string, unknown> };
+
+/**
+ * 转发给 GsCore 的消息单元
+ */
+export type GsCoreContent = { type: string; data: unknown };
+
+/**
+ * 被引用的消息
+ */
+export interface QuotedMessage {
+  userId: string;
+  nickname: string;
+  content: GsCoreContent[];
+}
+
+/** 展开合并转发时最多处理的消息条数 */
+const MAX_FORWARD_MESSAGES = 50;
+
+/**
+ * 将 OB11 消息段转换为 GsCore 的 Message[]
+ * @param depth 合并转发的剩余展开层数，为 0 时只保留占位文本
+ * @param budget 图片/语音转 base64 的剩余额度，展开的合并转发共用同一额度
+ */
+export async function convertOB11Segments(
+  segments: OB11Segment[],
+  depth = Math.max(pluginState.config.forwardExpandDepth || 0, 0),
+  budget: InlineBudget = createInlineBudget(),
+): Promise<GsCoreContent[]> {
+  const content: GsCoreContent[] = [];
+
+  for (const seg of segments) {
+    const segData = seg.data as Record<string, unknown> | undefined;
+    switch (seg.type) {
+      case 'text':
+        content.push({ type: 'text', data: segData?.text || '' });
+        break;
+      case 'image':
+        // 图片：GsCore 接收时一般为 url，按配置转为 base64
+        content.push({ type: 'image', data: await resolveInboundMedia('image', segData, budget) });
+        break;
+      case 'mface': {
+        // 商城表情按图片发送，取不到地址时退化为表情描述
+        const url = segData?.url || buildMfaceUrl(segData?.emoji_id);
+        if (url) {
+          content.push({ type: 'image', data: url });
+        } else if (segData?.summary) {
+          content.push({ type: 'text', data: String(segData.summary) });
+        }
+        break;
+      }
+      case 'at':
+        content.push({ type: 'at', data: String(segData?.qq || '') });
+        break;
+      case 'reply':
+        content.push({ type: 'reply', data: String(segData?.id || '') });
+        break;
+      case 'face': {
+        const id = String(segData?.id ?? '');
+        const name = QQ_FACE_NAMES[Number(id)];
+        content.push({ type: 'text', data: name ? `[${name}]` : `[表情:${id}]` });
+        break;
+      }
+      case 'record':
+        content.push({ type: 'record', data: await resolveInboundMedia('record', segData, budget) });
+        break;
+      case 'file':
+        content.push({ type: 'file', data: `${segData?.name || 'file'}|${segData?.url || ''}` });
+        break;
+      case 'forward':
+        content.push(...await expandForward(segData, depth, budget));
+        break;
+      case 'json':
+        content.push({ type: 'text', data: summarizeJsonCard(segData?.data) });
+        break;
+      case 'markdown':
+        if (segData?.content) content.push({ type: 'text', data: String(segData.content) });
+        break;
+      default:
+        // 其他未知类型，尝试转为文本
+        if (segData?.text) {
+          content.push({ type: 'text', data: segData.text });
+        }
+        break;
+    }
+  }
+
+  return content;
+}
+
+/**
+ * 获取并转换被引用的消息
+ * @param budget 与引用所在消息共用的转 base64 额度
+ * @returns 获取失败时返回 null
+ */
+export async function fetchQuotedMessage(replyId: string, budget?: InlineBudget): Promise<QuotedMessage | null> {
+  try {
+    const ctx = pluginState.ctx;
+    // 调用 get_msg 获取被引用消息详情
+    const replyMsg = await ctx.actions.call('get_msg', { message_id: replyId }, ctx.adapterName, ctx.pluginManager.config) as OB11Message;
+    pluginState.logger.debug(`[GScore] 获取到的引用消息: ${JSON.stringify(replyMsg)}`);
+    if (!replyMsg || !Array.isArray(replyMsg.message)) return null;
+
+    const sender = replyMsg.sender as Record<string, unknown> | undefined;
+    return {
+      userId: String(sender?.user_id || replyMsg.user_id || ''),
+      nickname: String(sender?.card || sender?.nickname || ''),
+      // 引用的引用不再展开
+      content: (await convertOB11Segments(replyMsg.message as OB11Segment[], undefined, budget)).filter(item => item.type !== 'reply'),
+    };
+  } catch (err) {
+    pluginState.logger.warn(`[GScore] 获取引用消息失败: ${err}`);
+    return null;
+  }
+}
+
+/**
+ * 展开合并转发为 "发送者: 内容" 形式的文本与图片
+ * 转发段自带内容时直接使用，否则通过 get_forward_msg 获取
+ */
+async function expandForward(
+  segData: Record<string, unknown> | undefined,
+  depth: number,
+  budget: InlineBudget,
+): Promise<GsCoreContent[]> {
+  const placeholder: GsCoreContent = { type: 'text', data: '[合并转发]' };
+  if (depth <= 0) return [placeholder];
+
+  let messages = Array.isArray(segData?.content) ? segData.content as unknown[] : null;
+  if (!messages && segData?.id) {
+    try {
+      const ctx = pluginState.ctx;
+      const res = await ctx.actions.call('get_forward_msg', { message_id: String(segData.id) }, ctx.adapterName, ctx.pluginManager.config) as { messages?: unknown[] };
+      messages = Array.isArray(res?.messages) ? res.messages : null;
+    } catch (err) {
+      pluginState.logger.warn(`[GScore] 获取合并转发内容失败: ${err}`);
+    }
+  }
+  if (!messages) return [placeholder];
+
+  const content: GsCoreContent[] = [{ type: 'text', data: '[合并转发]\n' }];
+  for (const item of messages.slice(0, MAX_FORWARD_MESSAGES)) {
+    const node = item as Record<string, unknown>;
+    const sender = node.sender as Record<string, unknown> | undefined;
+    const name = sender?.card || sender?.nickname || sender?.user_id || node.user_id || '';
+    const segments = Array.isArray(node.message) ? node.message : Array.isArray(node.content) ? node.content : [];
+
+    content.push({ type: 'text', data: `${name}: ` });
+    content.push(...await convertOB11Segments(segments as OB11Segment[], depth - 1, budget));
+    content.push({ type: 'text', data: '\n' });
+  }
+  if (messages.length > MAX_FORWARD_MESSAGES) {
+    content.push({ type: 'text', data: `……共 ${messages.length} 条\n` });
+  }
+  return content;
+}
+
+/**
+ * 由表情 ID 拼出商城表情图片地址
+ */
+function buildMfaceUrl(emojiId: unknown): string {
+  const id = typeof emojiId === 'string' ? emojiId : '';
+  if (!/^[0-9a-f]{32}$/i.test(id)) return '';
+  return `https://gxh.vip.qq.com/club/item/parcel/item/${id.slice(0, 2)}/${id}/raw300.gif`;
+}
+
+/**
+ * 提取 JSON 卡片的标题、描述与链接
+ */
+function summarizeJsonCard(raw: unknown): string {
+  try {
+    const card = (typeof raw === 'string' ? JSON.parse(raw) : raw) as Record<string, unknown>;
+    const meta = card?.meta && typeof card.meta === 'object'
+      ? Object.values(card.meta as Record<string, unknown>)[0] as Record<string, unknown> | undefined
+      : undefined;
+    const parts = [
+      meta?.title || card?.prompt,
+      meta?.desc,
+      meta?.qqdocurl || meta?.jumpUrl || meta?.url,
+    ].filter(part => typeof part === 'string' && part);
+    return parts.length > 0 ? `[卡片] ${parts.join(' ')}` : '[卡片]';
+  } catch {
+    return '[卡片]';
+  }
+}
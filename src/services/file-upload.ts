@@ -0,0 +1,141 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { pluginState } from '../core/state';
+import { PermanentSendError } from './send-scheduler';
+
+/**
+ * 文件发送目标
+ */
+export interface FileTarget {
+  type: 'group' | 'private';
+  id: string;
+}
+
+/**
+ * 解析后的 GsCore 文件段
+ * GsCore file 格式: "文件名|base64内容" 或 "文件名|link://url"
+ */
+interface ParsedGsCoreFile {
+  name: string;
+  /** base64 内容（不含 base64:// 前缀） */
+  base64?: string;
+  /** link:// 后的下载地址 */
+  url?: string;
+}
+
+/** 临时文件目录 */
+const TEMP_DIR = path.join(os.tmpdir(), 'napcat-gscore-adapter');
+
+/**
+ * 解析 GsCore file 段数据
+ */
+export function parseGsCoreFile(data: unknown): ParsedGsCoreFile | null {
+  const fileStr = String(data ?? '');
+  const sepIdx = fileStr.indexOf('|');
+  if (sepIdx <= 0) return null;
+
+  const name = fileStr.substring(0, sepIdx);
+  const payload = fileStr.substring(sepIdx + 1);
+  if (payload.startsWith('link://')) {
+    return { name, url: payload.replace('link://', '') };
+  }
+  return { name, base64: payload.replace(/^base64:\/\//, '') };
+}
+
+/**
+ * 将 GsCore 文件上传到群文件或私聊
+ * base64 内容解码、link:// 地址下载后写入临时文件，通过 NapCat 上传接口发送，完成后删除临时文件
+ * @throws 文件超过大小限制、下载失败或上传失败时抛出，超过大小限制或内容为空时抛出 PermanentSendError
+ */
+export async function uploadGsCoreFile(file: ParsedGsCoreFile, target: FileTarget): Promise<void> {
+  const maxBytes = Math.max(pluginState.config.fileMaxSize || 0, 0) * 1024 * 1024;
+  const content = await loadFileContent(file, maxBytes);
+
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+  const tempPath = path.join(TEMP_DIR, `${randomUUID()}-${sanitizeFileName(file.name)}`);
+
+  try {
+    fs.writeFileSync(tempPath, content);
+
+    const ctx = pluginState.ctx;
+    if (target.type === 'group') {
+      await ctx.actions.call('upload_group_file', {
+        group_id: target.id,
+        file: tempPath,
+        name: file.name,
+      }, ctx.adapterName, ctx.pluginManager.config);
+    } else {
+      await ctx.actions.call('upload_private_file', {
+        user_id: target.id,
+        file: tempPath,
+        name: file.name,
+      }, ctx.adapterName, ctx.pluginManager.config);
+    }
+    pluginState.logger.debug(`[GScore] 已上传文件 ${file.name} (${content.length} 字节) 到 ${target.type} ${target.id}`);
+  } finally {
+    fs.promises.unlink(tempPath).catch(() => { /* 临时文件可能已被 NapCat 移走 */ });
+  }
+}
+
+/**
+ * 读取文件内容，超过 maxBytes（大于 0 时）则抛出
+ */
+async function loadFileContent(file: ParsedGsCoreFile, maxBytes: number): Promise<Buffer> {
+  if (file.url) return downloadFile(file.url, maxBytes);
+
+  const base64 = file.base64 || '';
+  // base64 解码后约为原长度的 3/4，先估算避免解码超大内容
+  if (maxBytes > 0 && Math.floor(base64.length * 3 / 4) > maxBytes) {
+    throw new PermanentSendError('文件大小超过限制');
+  }
+  const buffer = Buffer.from(base64, 'base64');
+  if (buffer.length === 0) throw new PermanentSendError('文件内容为空');
+  return buffer;
+}
+
+/**
+ * 下载文件，超过 maxBytes（大于 0 时）或超过 fileDownloadTimeout 时抛出
+ * 边下载边计算大小，未声明 Content-Length 的超大文件也会在超限时立即中止
+ */
+export async function downloadFile(url: string, maxBytes: number): Promise<Buffer> {
+  const timeout = Math.max(pluginState.config.fileDownloadTimeout || 0, 0) * 1000;
+  try {
+    const res = await fetch(url, timeout > 0 ? { signal: AbortSignal.timeout(timeout) } : undefined);
+    if (!res.ok) throw new Error(`下载文件失败: HTTP ${res.status}`);
+
+    const declared = Number(res.headers.get('content-length') || 0);
+    if (maxBytes > 0 && declared > maxBytes) {
+      throw new PermanentSendError(`文件大小 ${declared} 字节超过限制`);
+    }
+    if (!res.body) return Buffer.alloc(0);
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (maxBytes > 0 && total > maxBytes) {
+        await reader.cancel().catch(() => { /* 连接可能已关闭 */ });
+        throw new PermanentSendError(`文件大小超过 ${maxBytes} 字节的限制`);
+      }
+      chunks.push(Buffer.from(value));
+    }
+    return Buffer.concat(chunks);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new Error(`下载文件超时 (${timeout / 1000} 秒)`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 去除文件名中的路径分隔符等非法字符
+ */
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').slice(0, 100) || 'file';
+}
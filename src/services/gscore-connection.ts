@@ -0,0 +1,417 @@
+import WebSocket from 'ws';
+import { pluginState } from '../core/state';
+import type { GScoreConnectionConfig, GsCoreMessageSend } from '../types';
+import { alertNotifier } from './alert-notifier';
+
+export type GScoreConnectionState = 'connected' | 'connecting' | 'disconnected';
+
+/**
+ * 发送结果：已发送、已放入离线队列、因离线队列未开启被丢弃
+ */
+export type GScoreSendResult = 'sent' | 'queued' | 'dropped';
+
+/**
+ * 单个连接的状态信息（用于 status 命令展示）
+ */
+export interface GScoreConnectionStatus {
+  name: string;
+  state: GScoreConnectionState;
+  reconnectAttempts: number;
+  /** 是否处于熔断状态（重连次数耗尽后低频探测） */
+  circuitOpen: boolean;
+  /** 是否被手动断开 */
+  stopped: boolean;
+  /** 下次重连时间戳，未计划重连时为 null */
+  nextRetryAt: number | null;
+  /** 最近一次收到 pong 的时间戳 */
+  lastPongAt: number | null;
+  /** 最近一次心跳往返延迟（毫秒） */
+  latency: number | null;
+  /** 离线队列中等待补发的消息数 */
+  queueDepth: number;
+  /** 因队列溢出或超时被丢弃的消息数 */
+  droppedCount: number;
+}
+
+/**
+ * 离线队列中的消息
+ */
+interface QueuedPayload {
+  payload: string;
+  queuedAt: number;
+}
+
+/**
+ * 单个 GScore WebSocket 连接
+ * 负责建立连接、断线重连以及收发原始帧，消息的转换由 GScoreService 处理
+ */
+export class GScoreConnection {
+  private ws: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private isConnecting: boolean = false;
+  private reconnectAttempts: number = 0;
+  private readonly MAX_RECONNECT_DELAY = 30000;
+  private readonly MIN_RECONNECT_DELAY = 1000;
+  /** 熔断状态：重连次数耗尽后改为按探测间隔重试 */
+  private circuitOpen: boolean = false;
+  /** 手动断开后不再自动重连，直到再次调用 connect() */
+  private stopped: boolean = false;
+  private nextRetryAt: number | null = null;
+  /** 心跳检测 */
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private missedPongs: number = 0;
+  private lastPingAt: number = 0;
+  private lastPongAt: number | null = null;
+  private latency: number | null = null;
+  /** 断线期间缓存的待转发消息 */
+  private offlineQueue: QueuedPayload[] = [];
+  private droppedCount: number = 0;
+
+  constructor(
+    private _config: GScoreConnectionConfig,
+    private readonly onMessage: (msgSend: GsCoreMessageSend, conn: GScoreConnection) => void,
+  ) { }
+
+  public get config(): GScoreConnectionConfig {
+    return this._config;
+  }
+
+  public get name(): string {
+    return this._config.name;
+  }
+
+  /** 是否被手动断开 */
+  public get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /**
+   * 更新连接配置，重连间隔等设置在下次重连时生效
+   * @returns 地址或 Token 是否变更（需要重连才能生效）
+   */
+  public updateConfig(config: GScoreConnectionConfig): boolean {
+    const changed = config.url !== this._config.url || config.token !== this._config.token;
+    this._config = config;
+    return changed;
+  }
+
+  /**
+   * 按当前配置重新启动心跳检测（心跳设置变更时调用）
+   */
+  public refreshHeartbeat() {
+    if (this.getStatus() === 'connected') this.startHeartbeat();
+  }
+
+  /** 日志前缀 */
+  private get tag(): string {
+    return `[GScore:${this.name}]`;
+  }
+
+  public getStatus(): GScoreConnectionState {
+    if (this.ws?.readyState === WebSocket.OPEN) return 'connected';
+    if (this.isConnecting || this.ws?.readyState === WebSocket.CONNECTING) return 'connecting';
+    return 'disconnected';
+  }
+
+  public getStatusInfo(): GScoreConnectionStatus {
+    return {
+      name: this.name,
+      state: this.getStatus(),
+      reconnectAttempts: this.reconnectAttempts,
+      circuitOpen: this.circuitOpen,
+      stopped: this.stopped,
+      nextRetryAt: this.nextRetryAt,
+      lastPongAt: this.lastPongAt,
+      latency: this.latency,
+      queueDepth: this.offlineQueue.length,
+      droppedCount: this.droppedCount,
+    };
+  }
+
+  public connect() {
+    if (!pluginState.config.gscoreEnable || !this.config.enabled) {
+      this.disconnect();
+      return;
+    }
+
+    if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) return;
+
+    this.stopped = false;
+    this.nextRetryAt = null;
+    this.isConnecting = true;
+    let url = this.config.url || 'ws://localhost:8765';
+
+    // 确保 url 不以 / 结尾
+    if (url.endsWith('/')) {
+      url = url.slice(0, -1);
+    }
+
+    // 使用固定的 bot_id: "napcat"
+    // 如果 url 不包含 /ws/，则拼接 /ws/napcat
+    if (!url.includes('/ws/')) {
+      url = `${url}/ws/napcat`;
+    }
+
+    const token = this.config.token || '';
+
+    try {
+      // 如果 url 不包含 token 且 token 存在，则拼接到 url query
+      const wsUrl = new URL(url);
+      if (token && !wsUrl.searchParams.has('token')) {
+        wsUrl.searchParams.append('token', token);
+      }
+
+      pluginState.logger.info(`${this.tag} 正在连接...`);
+
+      this.ws = new WebSocket(wsUrl.toString());
+
+      this.ws.on('open', () => {
+        pluginState.logger.info(`${this.tag} 连接成功！`);
+        if (this.circuitOpen) {
+          pluginState.logger.info(`${this.tag} 探测成功，退出熔断状态`);
+        }
+        this.isConnecting = false;
+        this.reconnectAttempts = 0;
+        this.circuitOpen = false;
+        if (this.reconnectTimer) {
+          clearTimeout(this.reconnectTimer);
+          this.reconnectTimer = null;
+        }
+        this.startHeartbeat();
+        this.flushQueue();
+        alertNotifier.onConnected(this.name);
+      });
+
+      this.ws.on('pong', () => {
+        this.missedPongs = 0;
+        this.lastPongAt = Date.now();
+        this.latency = this.lastPongAt - this.lastPingAt;
+      });
+
+      this.ws.on('message', (data) => {
+        try {
+          // GsCore 发回的是 MessageSend 的二进制 JSON
+          const raw = typeof data === 'string' ? data : data.toString('utf-8');
+          const msgSend = JSON.parse(raw) as GsCoreMessageSend;
+
+          pluginState.logger.debug(`${this.tag} 收到消息: target_type=${msgSend.target_type}, target_id=${msgSend.target_id}`);
+
+          this.onMessage(msgSend, this);
+        } catch (err) {
+          pluginState.logger.error(`${this.tag} 解析收到的消息失败:`, err);
+        }
+      });
+
+      this.ws.on('error', (err) => {
+        pluginState.logger.error(`${this.tag} 连接错误:`, err.message);
+      });
+
+      this.ws.on('close', (code, reason) => {
+        this.stopHeartbeat();
+        this.isConnecting = false;
+        this.ws = null;
+        pluginState.logger.warn(`${this.tag} 连接关闭: ${code} ${reason}`);
+        this.scheduleReconnect();
+        this.watchDisconnect();
+      });
+
+    } catch (error) {
+      pluginState.logger.error(`${this.tag} 创建连接失败:`, error);
+      this.isConnecting = false;
+      this.scheduleReconnect();
+      this.watchDisconnect();
+    }
+  }
+
+  public disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.nextRetryAt = null;
+    this.stopHeartbeat();
+    alertNotifier.cancelPending(this.name);
+    if (this.ws) {
+      // 先移除监听，避免主动断开时触发 close 事件中的重连
+      this.ws.removeAllListeners('close');
+      this.ws.close();
+      this.ws = null;
+    }
+    this.isConnecting = false;
+    this.reconnectAttempts = 0;
+    this.circuitOpen = false;
+  }
+
+  /**
+   * 手动断开，断开后不再自动重连
+   */
+  public stop() {
+    this.disconnect();
+    this.stopped = true;
+    pluginState.logger.info(`${this.tag} 已手动断开`);
+  }
+
+  /**
+   * 立即重连（重置退避与熔断状态）
+   */
+  public reconnect() {
+    this.disconnect();
+    this.connect();
+  }
+
+  /**
+   * 发送原始帧
+   * GsCore 使用 receive_bytes()，需要发送二进制帧
+   * 未连接时放入离线队列，离线队列未开启时丢弃
+   */
+  public send(payload: string): GScoreSendResult {
+    if (this.getStatus() !== 'connected' || !this.ws) {
+      return this.enqueue(payload) ? 'queued' : 'dropped';
+    }
+    this.ws.send(Buffer.from(payload));
+    return 'sent';
+  }
+
+  // ==================== 心跳检测 ====================
+
+  /**
+   * 定时发送 ping，连续多次未收到 pong 时终止连接并走重连流程
+   * 用于发现 NAT/反向代理后的半开连接（close 事件不会触发）
+   */
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    const interval = pluginState.config.heartbeatInterval ?? 0;
+    if (interval <= 0) return;
+
+    const maxMissed = Math.max(pluginState.config.heartbeatMaxMissed || 1, 1);
+    this.missedPongs = 0;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+      if (this.missedPongs >= maxMissed) {
+        pluginState.logger.warn(`${this.tag} 连续 ${this.missedPongs} 次未收到心跳响应，判定连接失效`);
+        this.stopHeartbeat();
+        // terminate 会触发 close 事件，从而进入重连流程
+        this.ws.terminate();
+        return;
+      }
+
+      this.missedPongs++;
+      this.lastPingAt = Date.now();
+      this.ws.ping();
+    }, interval);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.missedPongs = 0;
+  }
+
+  // ==================== 离线队列 ====================
+
+  /**
+   * 缓存断线期间的消息，超出条数上限时丢弃最早的消息
+   * @returns 是否已缓存，离线队列未开启时返回 false
+   */
+  private enqueue(payload: string): boolean {
+    const maxSize = pluginState.config.offlineQueueSize ?? 0;
+    if (maxSize <= 0) {
+      this.droppedCount++;
+      return false;
+    }
+
+    this.pruneQueue();
+    this.offlineQueue.push({ payload, queuedAt: Date.now() });
+    while (this.offlineQueue.length > maxSize) {
+      this.offlineQueue.shift();
+      this.droppedCount++;
+    }
+    pluginState.logger.debug(`${this.tag} 连接未就绪，消息已缓存 (${this.offlineQueue.length}/${maxSize})`);
+    return true;
+  }
+
+  /**
+   * 丢弃超过最大保留时长的消息
+   */
+  private pruneQueue() {
+    const maxAge = pluginState.config.offlineQueueMaxAge ?? 0;
+    if (maxAge <= 0) return;
+
+    const now = Date.now();
+    const before = this.offlineQueue.length;
+    this.offlineQueue = this.offlineQueue.filter(item => now - item.queuedAt <= maxAge);
+    this.droppedCount += before - this.offlineQueue.length;
+  }
+
+  /**
+   * 连接建立后按顺序补发缓存的消息
+   */
+  private flushQueue() {
+    this.pruneQueue();
+    if (this.offlineQueue.length === 0) return;
+
+    const queue = this.offlineQueue;
+    this.offlineQueue = [];
+    pluginState.logger.info(`${this.tag} 正在补发断线期间缓存的 ${queue.length} 条消息`);
+    for (const item of queue) {
+      this.send(item.payload);
+    }
+  }
+
+  /**
+   * 计算下次重连间隔：指数退避 + 随机抖动
+   * delay = min(上限, 基础间隔 * 2^已重试次数) * (1 ± 抖动比例)
+   */
+  private getBackoffDelay(): number {
+    const base = Math.max(this.config.reconnectInterval ?? pluginState.config.reconnectInterval ?? 5000, this.MIN_RECONNECT_DELAY);
+    const cap = Math.max(pluginState.config.reconnectMaxDelay || this.MAX_RECONNECT_DELAY, base);
+    const jitter = pluginState.config.reconnectJitter ?? 0;
+
+    // 限制指数，避免 2^n 溢出
+    const exp = Math.min(this.reconnectAttempts, 30);
+    const delay = Math.min(cap, base * Math.pow(2, exp));
+    const randomized = delay * (1 + jitter * (Math.random() * 2 - 1));
+    return Math.round(Math.max(this.MIN_RECONNECT_DELAY, randomized));
+  }
+
+  /**
+   * 非手动断开时，宽限期后仍未恢复则发送断线告警
+   */
+  private watchDisconnect() {
+    if (this.stopped || !pluginState.config.gscoreEnable || !this.config.enabled) return;
+    alertNotifier.onDisconnected(this.name, () => !this.stopped && this.getStatus() !== 'connected');
+  }
+
+  private scheduleReconnect() {
+    if (!pluginState.config.gscoreEnable || !this.config.enabled || this.stopped) return;
+
+    const maxAttempts = this.config.maxReconnectAttempts ?? pluginState.config.maxReconnectAttempts ?? 10;
+
+    // maxAttempts 为 0 时表示无限重试，不会进入熔断
+    if (!this.circuitOpen && maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
+      this.circuitOpen = true;
+      pluginState.logger.error(`${this.tag} 重连次数已达上限 (${maxAttempts})，进入熔断状态，之后将低频探测。可使用重连命令立即重试。`);
+      alertNotifier.onRetryExhausted(this.name, maxAttempts);
+    }
+
+    let delay: number;
+    if (this.circuitOpen) {
+      delay = Math.max(pluginState.config.circuitProbeInterval || 0, this.MIN_RECONNECT_DELAY);
+      pluginState.logger.info(`${this.tag} 熔断中，${Math.round(delay / 1000)} 秒后探测连接...`);
+    } else {
+      delay = this.getBackoffDelay();
+      const attemptInfo = maxAttempts > 0 ? `${this.reconnectAttempts + 1}/${maxAttempts}` : `${this.reconnectAttempts + 1}/∞`;
+      pluginState.logger.info(`${this.tag} ${(delay / 1000).toFixed(1)} 秒后尝试重连 (${attemptInfo})...`);
+    }
+
+    this.nextRetryAt = Date.now() + delay;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.circuitOpen) this.reconnectAttempts++;
+      this.connect();
+    }, delay);
+  }
+}
@@ -1,36 +1,75 @@
-
-import WebSocket from 'ws';
 import type { OB11Message, OB11PostSendMsg } from 'napcat-types/napcat-onebot';
 import { pluginState } from '../core/state';
+import { DEFAULT_CONNECTION_NAME } from '../config';
+import type { GsCoreMessage, GsCoreMessageSend } from '../types';
+import { GScoreConnection, type GScoreConnectionStatus } from './gscore-connection';
+import { parseGsCoreFile, uploadGsCoreFile } from './file-upload';
+import { renderButtonMenu, rememberButtonMenu } from './button-menu';
+import { PermanentSendError, sendScheduler } from './send-scheduler';
+import { messageContext, type ForwardedMessageContext } from '../core/message-context';
+import { usageStats } from '../core/stats';
+import { latencyTracker } from './latency-tracker';
+import { renderMarkdown, renderTemplateMarkdown } from './markdown-renderer';
+import { splitMessage } from './message-splitter';
+import { alertNotifier } from './alert-notifier';
+import { convertOB11Segments, fetchQuotedMessage, type GsCoreContent, type OB11Segment } from './content-converter';
+import { createInlineBudget, type InlineBudget } from './media-resolver';
 
 /**
- * GsCore Message 结构（早柚核心消息单元）
+ * 待发送的消息块：普通消息走 send_msg，合并转发走 forward 接口
  */
-interface GsCoreMessage {
-  type: string | null;
-  data: unknown;
+interface SegmentChunk {
+  kind: 'message' | 'forward';
+  segments: OB11Segment[];
 }
 
 /**
- * GsCore MessageSend 结构（早柚核心发送的消息）
+ * 待上传的文件块，与消息块一起按原顺序发送
  */
-interface GsCoreMessageSend {
-  bot_id: string;
-  bot_self_id: string;
-  msg_id: string;
-  target_type: string | null;
-  target_id: string | null;
-  content: GsCoreMessage[] | null;
+interface FileChunk {
+  kind: 'file';
+  file: GsCoreMessage;
 }
 
+type OutboundChunk = SegmentChunk | FileChunk;
+
+/**
+ * 转发消息所在的会话
+ */
+interface InboundSession {
+  userType: 'group' | 'direct' | 'channel';
+  /** 群号，频道消息为子频道 ID */
+  groupId?: string;
+  /** 群临时会话的来源群号 */
+  tempGroupId?: string;
+  /** 频道消息所属的频道 ID */
+  guildId?: string;
+}
+
+/**
+ * GScore 回复的投递目标
+ */
+interface DeliveryTarget {
+  type: 'group' | 'private' | 'channel';
+  /** 群号 / QQ 号 / 子频道 ID */
+  id: string;
+  /** 临时会话的来源群号，私聊时有值则按临时会话发送 */
+  tempGroupId?: string;
+  /** 子频道所属的频道 ID */
+  guildId?: string;
+}
+
+/** 投递目标类型的中文名，用于日志 */
+const TARGET_TYPE_LABELS: Record<DeliveryTarget['type'], string> = {
+  group: '群',
+  private: '私聊',
+  channel: '频道',
+};
+
 export class GScoreService {
   private static instance: GScoreService;
-  private ws: WebSocket | null = null;
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private isConnecting: boolean = false;
-  private reconnectAttempts: number = 0;
-  private readonly MAX_RECONNECT_DELAY = 30000;
-  private readonly MIN_RECONNECT_DELAY = 1000;
+  /** 按名称索引的连接 */
+  private connections: Map<string, GScoreConnection> = new Map();
 
   private constructor() { }
 
@@ -41,124 +80,123 @@ export class GScoreService {
     return GScoreService.instance;
   }
 
-  public getStatus(): 'connected' | 'connecting' | 'disconnected' {
-    if (this.ws?.readyState === WebSocket.OPEN) return 'connected';
-    if (this.isConnecting || this.ws?.readyState === WebSocket.CONNECTING) return 'connecting';
-    return 'disconnected';
+  /**
+   * 获取所有连接的状态
+   */
+  public getStatuses(): GScoreConnectionStatus[] {
+    return Array.from(this.connections.values()).map(conn => conn.getStatusInfo());
   }
 
+  /**
+   * 按配置建立所有已启用的连接
+   * 配置变更时也调用此方法：只处理增删与地址/Token 变更的连接，已连接的连接、离线队列与手动断开状态保持不变
+   */
   public connect() {
     if (!pluginState.config.gscoreEnable) {
       this.disconnect();
       return;
     }
 
-    if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) return;
-
-    this.isConnecting = true;
-    let url = pluginState.config.gscoreUrl || 'ws://localhost:8765';
-
-    // 确保 url 不以 / 结尾
-    if (url.endsWith('/')) {
-      url = url.slice(0, -1);
+    this.ensureConnections();
+    for (const conn of this.connections.values()) {
+      if (!conn.isStopped) conn.connect();
     }
+  }
 
-    // 使用固定的 bot_id: "napcat"
-    // 如果 url 不包含 /ws/，则拼接 /ws/napcat
-    if (!url.includes('/ws/')) {
-      url = `${url}/ws/napcat`;
+  /**
+   * 心跳设置变更后，让已连接的连接按新设置重新开始心跳检测
+   */
+  public refreshHeartbeats() {
+    for (const conn of this.connections.values()) {
+      conn.refreshHeartbeat();
     }
+  }
 
-    const token = pluginState.config.gscoreToken || '';
-
-    // 如果 url 不包含 token 且 token 存在，则拼接到 url query
-    const wsUrl = new URL(url);
-    if (token && !wsUrl.searchParams.has('token')) {
-      wsUrl.searchParams.append('token', token);
+  /**
+   * 断开并移除所有连接
+   */
+  public disconnect() {
+    for (const conn of this.connections.values()) {
+      conn.disconnect();
     }
+    this.connections.clear();
+  }
 
-    pluginState.logger.info(`[GScore] 正在连接...`);
-
-    try {
-      this.ws = new WebSocket(wsUrl.toString());
-
-      this.ws.on('open', () => {
-        pluginState.logger.info('[GScore] 连接成功！');
-        this.isConnecting = false;
-        this.reconnectAttempts = 0;
-        if (this.reconnectTimer) {
-          clearTimeout(this.reconnectTimer);
-          this.reconnectTimer = null;
-        }
-      });
-
-      this.ws.on('message', (data) => {
-        try {
-          // GsCore 发回的是 MessageSend 的二进制 JSON
-          const raw = typeof data === 'string' ? data : data.toString('utf-8');
-          const msgSend = JSON.parse(raw) as GsCoreMessageSend;
-
-          pluginState.logger.debug(`[GScore] 收到消息: target_type=${msgSend.target_type}, target_id=${msgSend.target_id}`);
-
-          // 处理 GsCore 发回的消息
-          this.handleGsCoreMessage(msgSend);
-        } catch (err) {
-          pluginState.logger.error('[GScore] 解析收到的消息失败:', err);
-        }
-      });
-
-      this.ws.on('error', (err) => {
-        pluginState.logger.error('[GScore] 连接错误:', err.message);
-      });
-
-      this.ws.on('close', (code, reason) => {
-        this.isConnecting = false;
-        this.ws = null;
-        pluginState.logger.warn(`[GScore] 连接关闭: ${code} ${reason}`);
-        this.scheduleReconnect();
-      });
+  /**
+   * 手动重连指定连接（不指定则重连全部），会重置退避与熔断状态
+   * @returns 实际重连的连接名称
+   */
+  public reconnect(name?: string): string[] {
+    if (!pluginState.config.gscoreEnable) return [];
 
-    } catch (error) {
-      pluginState.logger.error('[GScore] 创建连接失败:', error);
-      this.isConnecting = false;
-      this.scheduleReconnect();
+    this.ensureConnections();
+    const targets = this.getTargets(name);
+    for (const conn of targets) {
+      conn.reconnect();
     }
+    return targets.map(conn => conn.name);
   }
 
-  public disconnect() {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+  /**
+   * 手动断开指定连接（不指定则断开全部），断开后不会自动重连
+   * @returns 实际断开的连接名称
+   */
+  public stop(name?: string): string[] {
+    const targets = this.getTargets(name);
+    for (const conn of targets) {
+      conn.stop();
     }
-    this.isConnecting = false;
-    this.reconnectAttempts = 0;
+    return targets.map(conn => conn.name);
   }
 
-  private scheduleReconnect() {
-    if (!pluginState.config.gscoreEnable) return;
-
-    const maxAttempts = pluginState.config.maxReconnectAttempts ?? 10;
+  /**
+   * 按当前配置同步连接实例
+   * - 配置中已删除或停用的连接：断开并移除
+   * - 新增的连接：创建实例
+   * - 地址或 Token 变更的连接：断开，由 connect() 按新地址重连（手动断开的连接保持断开）
+   */
+  private ensureConnections() {
+    const configs = pluginState.getConnectionConfigs().filter(connConfig => connConfig.enabled);
+    const names = new Set(configs.map(connConfig => connConfig.name));
+
+    for (const [name, conn] of this.connections) {
+      if (names.has(name)) continue;
+      conn.disconnect();
+      this.connections.delete(name);
+      pluginState.logger.info(`[GScore:${name}] 连接已从配置中移除`);
+    }
 
-    // maxAttempts 为 0 时表示无限重试
-    if (maxAttempts > 0 && this.reconnectAttempts >= maxAttempts) {
-      pluginState.logger.error(`[GScore] 重连次数已达上限 (${maxAttempts})，停止重连。请检查配置或手动重试。`);
-      return;
+    for (const connConfig of configs) {
+      const existing = this.connections.get(connConfig.name);
+      if (!existing) {
+        const conn = new GScoreConnection(connConfig, (msgSend, source) => this.handleGsCoreMessage(msgSend, source));
+        this.connections.set(connConfig.name, conn);
+        continue;
+      }
+      if (existing.updateConfig(connConfig)) {
+        pluginState.logger.info(`[GScore:${connConfig.name}] 地址或 Token 已变更${existing.isStopped ? '' : '，正在重新连接'}`);
+        existing.disconnect();
+      }
     }
+  }
 
-    // 使用配置的重连间隔，如果没配置则默认 5000ms
-    const interval = pluginState.config.reconnectInterval ?? 5000;
+  private getTargets(name?: string): GScoreConnection[] {
+    if (!name) return Array.from(this.connections.values());
+    const conn = this.connections.get(name);
+    return conn ? [conn] : [];
+  }
 
-    const attemptInfo = maxAttempts > 0 ? `${this.reconnectAttempts + 1}/${maxAttempts}` : `${this.reconnectAttempts + 1}/∞`;
-    pluginState.logger.info(`[GScore] ${interval / 1000} 秒后尝试重连 (${attemptInfo})...`);
+  /**
+   * 获取消息应转发到的连接
+   * 路由到的连接不存在或未启用时回退到默认连接
+   */
+  private resolveConnection(groupId?: string): GScoreConnection | undefined {
+    const name = pluginState.resolveConnectionName(groupId);
+    const conn = this.connections.get(name);
+    if (conn) return conn;
 
-    this.reconnectTimer = setTimeout(() => {
-      this.reconnectAttempts++;
-      this.connect();
-    }, interval);
+    pluginState.logger.warn(`[GScore] 连接 ${name} 不存在或未启用，回退到默认连接`);
+    return this.connections.get(DEFAULT_CONNECTION_NAME);
   }
 
   /**
@@ -166,61 +204,54 @@ export class GScoreService {
    * 按照早柚协议文档，将 OB11 消息转换为 MessageReceive 格式
    */
   public async forwardMessage(event: OB11Message) {
-    if (this.getStatus() !== 'connected') return;
+    // 仅转发群消息、私聊消息（含群临时会话）和频道消息
+    const session = this.resolveSession(event);
+    if (!session) return;
 
-    // 仅转发群消息和私聊消息
-    if (event.message_type !== 'group' && event.message_type !== 'private') return;
+    const groupId = session.groupId;
+    const conn = this.resolveConnection(groupId);
+    if (!conn) return;
 
     try {
-      // 将 OB11 message 段转换为 GsCore 的 Message[] (content)
-      const content = this.convertOB11ToGsCoreContent(event);
+      // 将 OB11 message 段转换为 GsCore 的 Message[] (content)，引用消息与本消息共用转 base64 的数量上限
+      const inlineBudget = createInlineBudget();
+      const content = await this.convertOB11ToGsCoreContent(event, inlineBudget);
+      // 必须 @机器人 的模式下，去掉对机器人的 @，避免影响 GScore 的命令匹配
+      if (pluginState.getTriggerConfig(groupId).requireMention) {
+        this.stripSelfAt(content, String(pluginState.selfId || event.self_id || ''));
+      }
 
       let replySeg;
       if (Array.isArray(event.message)) {
         replySeg = event.message.find((seg) => seg.type === 'reply');
       }
 
-      if (replySeg) {
-        const replyId = (replySeg.data as any)?.id;
-        if (replyId) {
-          try {
-            const ctx = pluginState.ctx;
-            // 调用 get_msg 获取被引用消息详情
-            const replyMsg = await ctx.actions.call('get_msg', { message_id: replyId }, ctx.adapterName, ctx.pluginManager.config) as OB11Message;
-
-            pluginState.logger.debug(`[GScore] 获取到的引用消息: ${JSON.stringify(replyMsg)}`);
-
-            if (replyMsg && Array.isArray(replyMsg.message)) {
-              for (const seg of replyMsg.message) {
-                if (seg.type === 'image') {
-                  const segData = seg.data as any;
-                  let url = segData?.url || segData?.file;
-                  if (typeof url === 'string') {
-                    url = url.trim();
-                    if (url) {
-                      content.push({ type: 'image', data: url });
-                      pluginState.logger.debug(`[GScore] 已提取引用消息中的图片: ${url}`);
-                    }
-                  }
-                }
-              }
-            }
-          } catch (err) {
-            pluginState.logger.warn(`[GScore] 获取引用消息失败: ${err}`);
+      const replyId = replySeg ? String((replySeg.data as any)?.id || '') : '';
+      if (replyId) {
+        const quoted = await fetchQuotedMessage(replyId, inlineBudget);
+        if (quoted) {
+          // 引用消息中的图片追加到末尾，与直接发送图片的处理一致
+          for (const item of quoted.content) {
+            if (item.type !== 'image' || typeof item.data !== 'string' || !item.data.trim()) continue;
+            content.push({ type: 'image', data: item.data.trim() });
+            pluginState.logger.debug(`[GScore] 已提取引用消息中的图片: ${item.data}`);
           }
+          // 引用的文本单独放在 quote 段中：GScore 会把所有 text 段拼成命令文本，不能混入
+          content.push({
+            type: 'quote',
+            data: {
+              id: replyId,
+              user_id: quoted.userId,
+              nickname: quoted.nickname,
+              text: quoted.content.filter(item => item.type === 'text').map(item => item.data).join('').trim(),
+            },
+          });
         }
       }
 
-      // 确定 user_type
-      const userType = event.message_type === 'group' ? 'group' : 'direct';
-
-      // 确定 user_pm（用户权限）
-      let userPm = 6; // 默认普通用户
+      // 确定 user_pm（用户权限），映射规则见 pluginState.resolveUserPm
       const sender = event.sender as Record<string, unknown> | undefined;
-      if (sender) {
-        if (sender.role === 'owner') userPm = 2;
-        else if (sender.role === 'admin') userPm = 3;
-      }
+      const userPm = pluginState.resolveUserPm(String(event.user_id), sender?.role);
 
       // 构造 GsCore MessageReceive 结构
       // 所有 ID 字段必须为 string 类型
@@ -228,8 +259,8 @@ export class GScoreService {
         bot_id: 'onebot',
         bot_self_id: String(pluginState.selfId || event.self_id || ''),
         msg_id: String(event.message_id || ''),
-        user_type: userType,
-        group_id: event.group_id ? String(event.group_id) : null,
+        user_type: session.userType,
+        group_id: groupId ?? null,
         user_id: String(event.user_id),
         sender: sender ? {
           ...sender,
@@ -245,67 +276,134 @@ export class GScoreService {
         content: content,
       };
 
-      const payload = JSON.stringify(messageReceive);
-      // GsCore 使用 receive_bytes()，需要发送二进制帧
-      this.ws?.send(Buffer.from(payload));
-      pluginState.logger.debug(`[GScore] 已转发${userType === 'group' ? '群' : '私聊'} ${event.group_id || event.user_id} 消息`);
+      // 连接断开时由连接放入离线队列，重连后补发；离线队列未开启时消息被丢弃，不记录统计
+      const result = conn.send(JSON.stringify(messageReceive));
+      if (result === 'dropped') {
+        pluginState.logger.debug(`[GScore:${conn.name}] 连接未就绪且未开启离线队列，消息已丢弃`);
+        return;
+      }
+
+      const command = this.extractCommandWord(content);
+      messageContext.remember({
+        msgId: messageReceive.msg_id,
+        userId: messageReceive.user_id,
+        groupId,
+        tempGroupId: session.tempGroupId,
+        guildId: session.guildId,
+        forwardedAt: Date.now(),
+        command,
+      });
+      this.recordForwarded(messageReceive.user_id, groupId, command, messageReceive.msg_id);
+      if (result === 'queued') return;
+      pluginState.logger.debug(`[GScore:${conn.name}] 已转发${session.userType === 'group' ? '群' : session.userType === 'channel' ? '频道' : '私聊'} ${groupId || event.user_id} 消息`);
     } catch (error) {
       pluginState.logger.error('[GScore] 发送消息失败:', error);
     }
   }
 
+  /**
+   * 识别消息所在的会话，不支持的消息类型返回 null
+   * 群临时会话的 sub_type 为 group，来源群号在 group_id 或 sender.group_id 中
+   */
+  private resolveSession(event: OB11Message): InboundSession | null {
+    const raw = event as unknown as Record<string, unknown>;
+    const sender = event.sender as Record<string, unknown> | undefined;
+
+    switch (raw.message_type) {
+      case 'group':
+        return { userType: 'group', groupId: event.group_id ? String(event.group_id) : undefined };
+      case 'private': {
+        const tempGroupId = raw.sub_type === 'group' ? raw.group_id ?? sender?.group_id : undefined;
+        return { userType: 'direct', tempGroupId: tempGroupId ? String(tempGroupId) : undefined };
+      }
+      case 'guild':
+        if (!raw.channel_id) return null;
+        return { userType: 'channel', groupId: String(raw.channel_id), guildId: raw.guild_id ? String(raw.guild_id) : undefined };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 将通知/请求事件转发到 GsCore
+   * 事件没有原消息，msg_id 为空，GScore 的回复不会引用触发消息
+   */
+  public forwardEvent(params: { userId: string; groupId?: string; content: GsCoreMessage[] }) {
+    const conn = this.resolveConnection(params.groupId);
+    if (!conn) return;
+
+    const messageReceive = {
+      bot_id: 'onebot',
+      bot_self_id: String(pluginState.selfId || ''),
+      msg_id: '',
+      user_type: params.groupId ? 'group' : 'direct',
+      group_id: params.groupId ?? null,
+      user_id: params.userId,
+      sender: {
+        user_id: params.userId,
+        nickname: '',
+        avatar: `https://q1.qlogo.cn/g?b=qq&nk=${params.userId}&s=640`
+      },
+      user_pm: pluginState.resolveUserPm(params.userId),
+      content: params.content,
+    };
+
+    const result = conn.send(JSON.stringify(messageReceive));
+    if (result === 'dropped') return;
+    this.recordForwarded(params.userId, params.groupId, this.extractCommandWord(params.content));
+    if (result === 'queued') return;
+    pluginState.logger.debug(`[GScore:${conn.name}] 已转发事件 ${params.content[0]?.data} (${params.groupId || params.userId})`);
+  }
+
+  /**
+   * 记录转发统计与耗时，统计出错时只记录日志，不影响转发
+   * @param msgId 有原消息时记录首次回复耗时
+   */
+  private recordForwarded(userId: string, groupId: string | undefined, command: string, msgId?: string) {
+    try {
+      if (msgId) latencyTracker.track(msgId, command);
+      usageStats.recordForward(userId, groupId, command);
+    } catch (error) {
+      pluginState.logger.warn('[GScore] 记录转发统计失败:', error);
+    }
+  }
+
+  /**
+   * 取第一段文本的第一个词作为命令，用于统计
+   */
+  private extractCommandWord(content: Array<{ type: string | null; data: unknown }>): string {
+    const text = content.find(msg => msg.type === 'text');
+    return String(text?.data ?? '').trim().split(/\s+/)[0].slice(0, 20);
+  }
+
+  /**
+   * 移除 content 中对机器人的 @，并去掉紧随其后文本的前导空白
+   */
+  private stripSelfAt(content: Array<{ type: string; data: unknown }>, selfId: string) {
+    for (let i = content.length - 1; i >= 0; i--) {
+      if (content[i].type !== 'at' || content[i].data !== selfId) continue;
+      content.splice(i, 1);
+      const next = content[i];
+      if (next?.type === 'text' && typeof next.data === 'string') {
+        next.data = next.data.trimStart();
+        if (!next.data) content.splice(i, 1);
+      }
+    }
+  }
+
   /**
    * 将 OB11 消息段数组转换为 GsCore 的 Message[] 格式
    * GsCore Message: { type: string, data: any }
    */
-  private convertOB11ToGsCoreContent(event: OB11Message): Array<{ type: string; data: unknown }> {
-    const content: Array<{ type: string; data: unknown }> = [];
+  private async convertOB11ToGsCoreContent(event: OB11Message, budget?: InlineBudget): Promise<GsCoreContent[]> {
     const message = event.message;
 
     if (!message || !Array.isArray(message)) {
       // 如果没有 message 数组，使用 raw_message 作为文本
-      if (event.raw_message) {
-        content.push({ type: 'text', data: event.raw_message });
-      }
-      return content;
-    }
-
-    for (const seg of message) {
-      const segData = seg.data as Record<string, unknown> | undefined;
-      switch (seg.type) {
-        case 'text':
-          content.push({ type: 'text', data: segData?.text || '' });
-          break;
-        case 'image':
-          // 图片：GsCore 接收时一般为 url
-          content.push({ type: 'image', data: segData?.url || segData?.file || '' });
-          break;
-        case 'at':
-          content.push({ type: 'at', data: String(segData?.qq || '') });
-          break;
-        case 'reply':
-          content.push({ type: 'reply', data: String(segData?.id || '') });
-          break;
-        case 'face':
-          // 表情转为文本占位
-          content.push({ type: 'text', data: `[表情:${segData?.id || ''}]` });
-          break;
-        case 'record':
-          content.push({ type: 'record', data: segData?.url || segData?.file || '' });
-          break;
-        case 'file':
-          content.push({ type: 'file', data: `${segData?.name || 'file'}|${segData?.url || ''}` });
-          break;
-        default:
-          // 其他未知类型，尝试转为文本
-          if (segData?.text) {
-            content.push({ type: 'text', data: segData.text });
-          }
-          break;
-      }
+      return event.raw_message ? [{ type: 'text', data: event.raw_message }] : [];
     }
 
-    return content;
+    return convertOB11Segments(message as OB11Segment[], undefined, budget);
   }
 
   // ==================== GsCore 消息接收处理 ====================
@@ -313,8 +411,9 @@ export class GScoreService {
   /**
    * 处理 GsCore 发回的 MessageSend 消息
    * 将其转换为 OB11 格式并通过 NapCat API 发送到 QQ
+   * 所有连接收到的消息都在此统一处理
    */
-  private async handleGsCoreMessage(msgSend: GsCoreMessageSend) {
+  private async handleGsCoreMessage(msgSend: GsCoreMessageSend, conn: GScoreConnection) {
     const { target_type, target_id, content } = msgSend;
 
     if (!content || content.length === 0) {
@@ -327,21 +426,22 @@ export class GScoreService {
     if (firstMsg.type && firstMsg.type.startsWith('log_')) {
       const level = firstMsg.type.replace('log_', '').toLowerCase();
       const logData = String(firstMsg.data || '');
+      alertNotifier.onGScoreLog(conn.name, level, logData);
       switch (level) {
         case 'info':
-          pluginState.logger.info(`[GScore Log] ${logData}`);
+          pluginState.logger.info(`[GScore Log:${conn.name}] ${logData}`);
           break;
         case 'warning':
-          pluginState.logger.warn(`[GScore Log] ${logData}`);
+          pluginState.logger.warn(`[GScore Log:${conn.name}] ${logData}`);
           break;
         case 'error':
-          pluginState.logger.error(`[GScore Log] ${logData}`);
+          pluginState.logger.error(`[GScore Log:${conn.name}] ${logData}`);
           break;
         case 'success':
-          pluginState.logger.info(`[GScore Log] ✅ ${logData}`);
+          pluginState.logger.info(`[GScore Log:${conn.name}] ✅ ${logData}`);
           break;
         default:
-          pluginState.logger.debug(`[GScore Log] [${level}] ${logData}`);
+          pluginState.logger.debug(`[GScore Log:${conn.name}] [${level}] ${logData}`);
       }
       return;
     }
@@ -351,47 +451,320 @@ export class GScoreService {
       return;
     }
 
+    const origin = messageContext.get(msgSend.msg_id);
+    const deliveryTarget = this.resolveDeliveryTarget(target_type, target_id, origin);
+    if (!deliveryTarget) return;
+
+    const isPrivate = deliveryTarget.type === 'private';
+    const groupId = isPrivate ? undefined : target_id;
+    // 私聊的目标即用户本人；群聊通过 msg_id 找回触发回复的用户
+    const userId = isPrivate ? target_id : origin?.userId;
+    usageStats.recordReply(groupId, userId);
+
+    const replyLatency = latencyTracker.recordReply(msgSend.msg_id);
+    if (replyLatency !== null) {
+      pluginState.logger.debug(`[GScore:${conn.name}] 消息 ${msgSend.msg_id}（${origin?.command || '无文本'}）首次回复耗时 ${replyLatency}ms`);
+    }
+
     try {
-      // 将 GsCore Message[] 转换为 OB11 消息段
-      const ob11Message = this.convertGsCoreToOB11(content);
+      // 按原顺序拆分：连续的普通消息合并为一次发送，node 以合并转发单独发送，文件通过上传接口单独发送
+      const chunks: OutboundChunk[] = [];
+      for (const msg of content) {
+        if (msg.type === 'file' && pluginState.config.fileUploadEnable) {
+          chunks.push({ kind: 'file', file: msg });
+          continue;
+        }
+        if (msg.type === 'node') {
+          const nodes = this.buildForwardNodes(msg.data, groupId);
+          if (nodes.length > 0) chunks.push({ kind: 'forward', segments: nodes });
+          continue;
+        }
+        const segments = this.convertGsCoreToOB11([msg]);
+        if (segments.length === 0) continue;
+        const last = chunks[chunks.length - 1];
+        if (last?.kind === 'message') {
+          last.segments.push(...segments);
+        } else {
+          chunks.push({ kind: 'message', segments });
+        }
+      }
+
+      this.applyReplyQuote(chunks, msgSend.msg_id, groupId);
+
+      // 按钮渲染为序号菜单，附加在最后一条普通消息末尾
+      if (pluginState.config.buttonMenuEnable) {
+        const buttonData = content
+          .filter(msg => msg.type === 'buttons' || msg.type === 'template_buttons')
+          .map(msg => msg.data);
+        const menu = renderButtonMenu(buttonData);
+        if (menu) {
+          const last = chunks[chunks.length - 1];
+          if (last?.kind === 'message') {
+            last.segments.push({ type: 'text', data: { text: `\n${menu.text}` } });
+          } else {
+            chunks.push({ kind: 'message', segments: [{ type: 'text', data: { text: menu.text } }] });
+          }
+          if (userId) rememberButtonMenu(groupId, userId, menu.commands);
+        }
+      }
+
+      const sendChunks = this.splitOversizedChunks(chunks, deliveryTarget, groupId);
 
-      if (ob11Message.length === 0) {
+      if (sendChunks.length === 0) {
         pluginState.logger.debug('[GScore] 转换后消息为空，忽略');
         return;
       }
 
-      const ctx = pluginState.ctx;
-
-      // 根据 target_type 决定发送目标
-      if (target_type === 'direct') {
-        // 私聊消息
-        const params: OB11PostSendMsg = {
-          message: ob11Message as OB11PostSendMsg['message'],
-          message_type: 'private',
-          user_id: target_id,
-        };
-        await ctx.actions.call('send_msg', params, ctx.adapterName, ctx.pluginManager.config);
-        pluginState.logger.debug(`[GScore] 已发送私聊消息到 ${target_id}`);
-      } else {
-        // 群消息（group/channel/sub_channel 都走群发送）
-        const params: OB11PostSendMsg = {
-          message: ob11Message as OB11PostSendMsg['message'],
-          message_type: 'group',
-          group_id: target_id,
-        };
-        await ctx.actions.call('send_msg', params, ctx.adapterName, ctx.pluginManager.config);
-        pluginState.logger.debug(`[GScore] 已发送群消息到 ${target_id}`);
+      // 全部加入发送队列后再等待，保证同一目标下本条回复的各部分连续且有序
+      const target = `${deliveryTarget.type}:${target_id}`;
+      const tasks = sendChunks.map(chunk => {
+        if (chunk.kind === 'file') return this.sendFile(chunk.file, deliveryTarget, target);
+        return sendScheduler.schedule(target, async () => {
+          const startedAt = Date.now();
+          if (chunk.kind === 'forward') {
+            await this.sendForwardMessage(chunk.segments, deliveryTarget).catch(async error => {
+              // 目标不支持合并转发时改为逐条发送节点内容
+              if (!(error instanceof PermanentSendError)) throw error;
+              pluginState.logger.debug(`[GScore] ${error.message}，改为普通消息发送`);
+              await this.sendOB11Message(this.flattenForwardNodes(chunk.segments), deliveryTarget);
+            });
+          } else {
+            await this.sendOB11Message(chunk.segments, deliveryTarget);
+          }
+          const elapsed = Date.now() - startedAt;
+          latencyTracker.recordSend(origin?.command, elapsed);
+          pluginState.logger.debug(`[GScore:${conn.name}] 已发送${TARGET_TYPE_LABELS[deliveryTarget.type]}${chunk.kind === 'forward' ? '合并转发' : '消息'}到 ${target_id}，耗时 ${elapsed}ms`);
+        });
+      });
+
+      const results = await Promise.allSettled(tasks);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          pluginState.logger.error('[GScore] 发送回复消息失败:', result.reason);
+        }
       }
+      usageStats.recordSendFailure(results.filter(result => result.status === 'rejected').length, groupId, userId);
     } catch (error) {
       pluginState.logger.error('[GScore] 发送回复消息失败:', error);
     }
   }
 
+  /**
+   * 按自动引用配置，在第一条普通消息前补上引用触发消息和/或 @触发者
+   * GScore 自带引用或 @ 时不重复添加；私聊不添加 @
+   */
+  private applyReplyQuote(chunks: OutboundChunk[], msgId: string, groupId?: string) {
+    const mode = pluginState.getReplyQuoteMode(groupId);
+    if (mode === 'off') return;
+
+    const first = chunks.find((chunk): chunk is SegmentChunk => chunk.kind === 'message');
+    const origin = messageContext.get(msgId);
+    if (!first || !origin) return;
+
+    const prefix: OB11Segment[] = [];
+    if ((mode === 'reply' || mode === 'both') && !first.segments.some(seg => seg.type === 'reply')) {
+      prefix.push({ type: 'reply', data: { id: origin.msgId } });
+    }
+    if (groupId && (mode === 'at' || mode === 'both') && !first.segments.some(seg => seg.type === 'at')) {
+      prefix.push({ type: 'at', data: { qq: origin.userId } });
+      prefix.push({ type: 'text', data: { text: ' ' } });
+    }
+    first.segments.unshift(...prefix);
+  }
+
+  /**
+   * 按单条消息的字数与图片数上限拆分普通消息
+   * 折叠模式下超出上限的消息改为一条合并转发（频道不支持合并转发，仍然拆分）
+   */
+  private splitOversizedChunks(chunks: OutboundChunk[], target: DeliveryTarget, groupId?: string): OutboundChunk[] {
+    const limits = { maxChars: pluginState.config.sendMaxChars, maxImages: pluginState.config.sendMaxImages };
+    const fold = pluginState.config.oversizeMode === 'forward' && target.type !== 'channel';
+    const result: OutboundChunk[] = [];
+
+    for (const chunk of chunks) {
+      const pieces = chunk.kind === 'message' ? splitMessage(chunk.segments, limits) : [];
+      if (pieces.length <= 1) {
+        result.push(chunk);
+        continue;
+      }
+
+      if (fold) {
+        // 合并转发节点中不能引用消息
+        const sender = pluginState.getForwardSender(groupId);
+        const nodes = pieces
+          .map(piece => piece.filter(seg => seg.type !== 'reply'))
+          .filter(piece => piece.length > 0)
+          .map(content => ({ type: 'node', data: { ...sender, content } }));
+        result.push({ kind: 'forward', segments: nodes });
+        pluginState.logger.debug(`[GScore] 超长消息已折叠为 ${nodes.length} 个节点的合并转发`);
+      } else {
+        result.push(...pieces.map(segments => ({ kind: 'message' as const, segments })));
+        pluginState.logger.debug(`[GScore] 超长消息已拆分为 ${pieces.length} 条`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 将 GScore 的 target_type/target_id 解析为投递目标，无法投递时记录错误并返回 null
+   * - direct：私聊；该用户最近通过群临时会话发来消息时按临时会话发送
+   * - group：群聊
+   * - channel/sub_channel：频道，需要从转发记录中找到子频道所属的频道
+   */
+  private resolveDeliveryTarget(
+    targetType: string | null,
+    targetId: string,
+    origin?: ForwardedMessageContext,
+  ): DeliveryTarget | null {
+    switch (targetType) {
+      case 'direct': {
+        const tempGroupId = origin?.userId === targetId && !origin.groupId
+          ? origin.tempGroupId
+          : messageContext.getTempSource(targetId);
+        return { type: 'private', id: targetId, tempGroupId };
+      }
+      case 'group':
+        return { type: 'group', id: targetId };
+      case 'channel':
+      case 'sub_channel': {
+        const guildId = (origin?.groupId === targetId ? origin.guildId : undefined) ?? messageContext.getChannelGuild(targetId);
+        if (!guildId) {
+          pluginState.logger.error(`[GScore] 无法发送到子频道 ${targetId}：未找到其所属的频道（仅能回复已转发过消息的子频道）`);
+          return null;
+        }
+        return { type: 'channel', id: targetId, guildId };
+      }
+      default:
+        pluginState.logger.error(`[GScore] 不支持的 target_type: ${targetType}，目标 ${targetId} 的消息未发送`);
+        return null;
+    }
+  }
+
+  /**
+   * 发送 OB11 消息
+   * 临时会话需附带来源群号，频道消息走 send_guild_channel_msg
+   */
+  private async sendOB11Message(message: OB11Segment[], target: DeliveryTarget) {
+    const ctx = pluginState.ctx;
+    if (target.type === 'channel') {
+      try {
+        await ctx.actions.call('send_guild_channel_msg', { guild_id: target.guildId, channel_id: target.id, message }, ctx.adapterName, ctx.pluginManager.config);
+      } catch (error) {
+        throw new Error(`发送到子频道 ${target.id} 失败，当前 NapCat 可能不支持频道接口 send_guild_channel_msg: ${error}`);
+      }
+      return;
+    }
+
+    const params: OB11PostSendMsg = target.type === 'private'
+      ? {
+        message: message as OB11PostSendMsg['message'],
+        message_type: 'private',
+        user_id: target.id,
+        ...(target.tempGroupId ? { group_id: target.tempGroupId } : {}),
+      }
+      : { message: message as OB11PostSendMsg['message'], message_type: 'group', group_id: target.id };
+    await ctx.actions.call('send_msg', params, ctx.adapterName, ctx.pluginManager.config);
+  }
+
+  /**
+   * 发送合并转发消息
+   * 频道不支持合并转发，抛出 PermanentSendError
+   */
+  private async sendForwardMessage(nodes: OB11Segment[], target: DeliveryTarget) {
+    const ctx = pluginState.ctx;
+    if (target.type === 'private') {
+      await ctx.actions.call('send_private_forward_msg', { user_id: target.id, messages: nodes }, ctx.adapterName, ctx.pluginManager.config);
+    } else if (target.type === 'group') {
+      await ctx.actions.call('send_group_forward_msg', { group_id: target.id, messages: nodes }, ctx.adapterName, ctx.pluginManager.config);
+    } else {
+      throw new PermanentSendError(`子频道 ${target.id} 不支持合并转发消息`);
+    }
+  }
+
+  /**
+   * 将合并转发节点展开为普通消息段，各节点之间换行
+   */
+  private flattenForwardNodes(nodes: OB11Segment[]): OB11Segment[] {
+    const result: OB11Segment[] = [];
+    for (const node of nodes) {
+      const content = node.data.content;
+      if (!Array.isArray(content)) continue;
+      const segments = content.some((seg: OB11Segment) => seg?.type === 'node')
+        ? this.flattenForwardNodes(content as OB11Segment[])
+        : content as OB11Segment[];
+      if (segments.length === 0) continue;
+      if (result.length > 0) result.push({ type: 'text', data: { text: '\n' } });
+      result.push(...segments);
+    }
+    return result;
+  }
+
+  /**
+   * 将 GsCore node 段的子消息构造为合并转发节点
+   * 一段文字与紧随其后的图片视为同一条记录，合并到同一个节点中；
+   * 每段文字都开始新的节点，嵌套的 node 作为嵌套转发节点
+   */
+  private buildForwardNodes(data: unknown, groupId?: string): OB11Segment[] {
+    if (!Array.isArray(data)) return [];
+
+    const sender = pluginState.getForwardSender(groupId);
+    const nodes: OB11Segment[] = [];
+    let current: OB11Segment[] = [];
+
+    const flush = () => {
+      if (current.length > 0) {
+        nodes.push({ type: 'node', data: { ...sender, content: current } });
+      }
+      current = [];
+    };
+
+    for (const subMsg of data as GsCoreMessage[]) {
+      if (subMsg?.type === 'node') {
+        flush();
+        const nested = this.buildForwardNodes(subMsg.data, groupId);
+        if (nested.length > 0) nodes.push({ type: 'node', data: { ...sender, content: nested } });
+        continue;
+      }
+
+      const segments = this.convertGsCoreToOB11([subMsg]);
+      if (segments.length === 0) continue;
+
+      if (subMsg.type === 'text') flush();
+      current.push(...segments);
+    }
+    flush();
+
+    return nodes;
+  }
+
+  /**
+   * 上传 GsCore 文件，失败时发送文字提示
+   */
+  private async sendFile(msg: GsCoreMessage, deliveryTarget: DeliveryTarget, target: string) {
+    const file = parseGsCoreFile(msg.data);
+    if (!file) return;
+
+    // 上传与降级提示在同一个发送任务中完成，保证文件在回复中的位置不变
+    await sendScheduler.schedule(target, async lastAttempt => {
+      try {
+        const type = deliveryTarget.type;
+        if (type === 'channel') throw new PermanentSendError('频道不支持上传文件');
+        await uploadGsCoreFile(file, { type, id: deliveryTarget.id });
+      } catch (error) {
+        // 仍可重试时交给发送队列重试
+        if (!lastAttempt && !(error instanceof PermanentSendError)) throw error;
+        pluginState.logger.warn(`[GScore] 上传文件 ${file.name} 失败:`, error);
+        const fallback = file.url ? `[文件: ${file.name}] ${file.url}` : `[文件: ${file.name}] 发送失败`;
+        await this.sendOB11Message([{ type: 'text', data: { text: fallback } }], deliveryTarget);
+      }
+    });
+  }
+
   /**
    * 将 GsCore Message[] 转换为 OB11 消息段数组
    */
-  private convertGsCoreToOB11(content: GsCoreMessage[]): Array<{ type: string; data: Record<string, unknown> }> {
-    const result: Array<{ type: string; data: Record<string, unknown> }> = [];
+  private convertGsCoreToOB11(content: GsCoreMessage[]): OB11Segment[] {
+    const result: OB11Segment[] = [];
 
     for (const msg of content) {
       if (!msg.type || msg.data === null || msg.data === undefined) continue;
@@ -464,29 +837,14 @@ export class GScoreService {
         }
 
         case 'markdown':
-          // Markdown 消息：NapCat 不直接支持 markdown 消息段，转为文本
-          result.push({ type: 'text', data: { text: String(msg.data) } });
-          break;
-
-        case 'node': {
-          // 合并转发里的子消息
-          if (Array.isArray(msg.data)) {
-            const subMessagesRaw = msg.data as GsCoreMessage[];
-            // 遍历每个子消息，将其分别包装为 node 节点
-            for (const subMsg of subMessagesRaw) {
-              const ob11Segments = this.convertGsCoreToOB11([subMsg]);
-
-              if (ob11Segments.length > 0) {
-                // 构造 node 节点
-                result.push({
-                  type: 'node',
-                  data: {
-                    user_id: `3889929917`,
-                    nickname: `🦊小助手`,
-                    content: ob11Segments
-                  }
-                });
-              }
+        case 'template_markdown': {
+          // NapCat 不直接支持 markdown 消息段，渲染为纯文本，其中的图片单独发送
+          const parts = msg.type === 'markdown' ? renderMarkdown(String(msg.data)) : renderTemplateMarkdown(msg.data);
+          for (const part of parts) {
+            if (part.type === 'image') {
+              result.push(...this.convertGsCoreToOB11([{ type: 'image', data: part.data }]));
+            } else {
+              result.push({ type: 'text', data: { text: part.data } });
             }
           }
           break;
@@ -498,9 +856,8 @@ export class GScoreService {
 
         case 'buttons':
         case 'template_buttons':
-        case 'template_markdown':
         case 'group':
-          // 按钮、模板消息、内部群号标记等，QQ 群聊不需要，忽略
+          // 按钮在 handleGsCoreMessage 中渲染为序号菜单；内部群号标记等 QQ 群聊不需要，忽略
           break;
 
         default:
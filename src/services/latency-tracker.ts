@@ -0,0 +1,186 @@
+import { pluginState } from '../core/state';
+
+/** 每个命令保留的最近样本数 */
+const MAX_SAMPLES = 100;
+/** 最多统计的命令数，超出时淘汰最早出现的命令 */
+const MAX_COMMANDS = 200;
+/** 检查未回复消息的间隔（毫秒） */
+const SWEEP_INTERVAL = 10 * 1000;
+
+/**
+ * 单个命令的延迟样本
+ */
+interface LatencySamples {
+  /** 转发到收到第一条回复的耗时 */
+  reply: number[];
+  /** 调用发送接口的耗时 */
+  send: number[];
+}
+
+/**
+ * 等待回复的消息
+ */
+interface PendingReply {
+  command: string;
+  forwardedAt: number;
+}
+
+/**
+ * 单个命令的延迟统计（毫秒）
+ */
+export interface CommandLatency {
+  command: string;
+  count: number;
+  replyP50: number | null;
+  replyP95: number | null;
+  sendP50: number | null;
+  sendP95: number | null;
+}
+
+/**
+ * 延迟统计
+ */
+export interface LatencyStats {
+  /** 所有命令合计 */
+  overall: CommandLatency;
+  /** 按回复次数降序 */
+  commands: CommandLatency[];
+  /** 超时未回复的消息数 */
+  timeouts: number;
+  /** 正在等待回复的消息数 */
+  pending: number;
+}
+
+/**
+ * 计算百分位数，没有样本时返回 null
+ */
+function percentile(samples: number[], p: number): number | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(Math.ceil(sorted.length * p) - 1, sorted.length - 1)];
+}
+
+function pushSample(samples: number[], value: number): void {
+  samples.push(value);
+  if (samples.length > MAX_SAMPLES) samples.shift();
+}
+
+/**
+ * 请求/回复延迟追踪
+ * 以 msg_id 关联转发的消息与 GScore 的回复，记录首次回复耗时与发送耗时
+ */
+class LatencyTracker {
+  private samples: Map<string, LatencySamples> = new Map();
+  private overall: LatencySamples = { reply: [], send: [] };
+  private pending: Map<string, PendingReply> = new Map();
+  private timeouts = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * 记录一条已转发、等待回复的消息
+   */
+  track(msgId: string, command: string): void {
+    if (!msgId) return;
+    this.pending.set(msgId, { command, forwardedAt: Date.now() });
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL);
+    }
+  }
+
+  /**
+   * 记录收到回复，仅第一条回复计入耗时
+   * @returns 首次回复耗时（毫秒），不是首次回复或无法关联时返回 null
+   */
+  recordReply(msgId: string): number | null {
+    const entry = this.pending.get(msgId);
+    if (!entry) return null;
+    this.pending.delete(msgId);
+
+    const elapsed = Date.now() - entry.forwardedAt;
+    pushSample(this.getSamples(entry.command).reply, elapsed);
+    pushSample(this.overall.reply, elapsed);
+    return elapsed;
+  }
+
+  /**
+   * 记录一次发送接口的耗时
+   * @param command 触发回复的命令，无法关联（如主动推送）时只计入合计
+   */
+  recordSend(command: string | undefined, elapsed: number): void {
+    if (command) pushSample(this.getSamples(command).send, elapsed);
+    pushSample(this.overall.send, elapsed);
+  }
+
+  getStats(): LatencyStats {
+    const summarize = (command: string, s: LatencySamples): CommandLatency => ({
+      command,
+      count: s.reply.length,
+      replyP50: percentile(s.reply, 0.5),
+      replyP95: percentile(s.reply, 0.95),
+      sendP50: percentile(s.send, 0.5),
+      sendP95: percentile(s.send, 0.95),
+    });
+
+    const commands = [...this.samples.entries()]
+      .map(([command, s]) => summarize(command, s))
+      .sort((a, b) => b.count - a.count);
+    return {
+      overall: summarize('', this.overall),
+      commands,
+      timeouts: this.timeouts,
+      pending: this.pending.size,
+    };
+  }
+
+  /** 清空所有状态 */
+  reset(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.samples.clear();
+    this.overall = { reply: [], send: [] };
+    this.pending.clear();
+    this.timeouts = 0;
+  }
+
+  private getSamples(command: string): LatencySamples {
+    let s = this.samples.get(command);
+    if (!s) {
+      s = { reply: [], send: [] };
+      this.samples.set(command, s);
+      if (this.samples.size > MAX_COMMANDS) {
+        this.samples.delete(this.samples.keys().next().value!);
+      }
+    }
+    return s;
+  }
+
+  /**
+   * 标记超时未回复的消息；没有等待中的消息时停止检查
+   */
+  private sweep(): void {
+    const timeout = Math.max(pluginState.config.latencyReplyTimeout || 0, 0) * 1000;
+    const now = Date.now();
+    // 关闭超时检查时仍按上下文保留时长清理，避免无回复的命令（如普通聊天）一直堆积
+    const expireAfter = timeout > 0 ? timeout : 10 * 60 * 1000;
+
+    for (const [msgId, entry] of this.pending) {
+      const elapsed = now - entry.forwardedAt;
+      if (elapsed < expireAfter) continue;
+      this.pending.delete(msgId);
+      if (timeout > 0) {
+        this.timeouts++;
+        pluginState.logger.debug(`[延迟] 消息 ${msgId}（${entry.command || '无文本'}）超过 ${timeout / 1000} 秒未收到 GScore 回复`);
+      }
+    }
+
+    if (this.pending.size === 0 && this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+/** 导出全局单例 */
+export const latencyTracker = new LatencyTracker();
@@ -0,0 +1,174 @@
+import { pluginState } from '../core/state';
+
+/**
+ * 渲染结果：文本与 Markdown 中的图片按原顺序排列
+ */
+export type MarkdownPart = { type: 'text' | 'image'; data: string };
+
+/** 已提示过缺少定义的模板，避免重复输出日志 */
+const missingTemplates = new Set<string>();
+
+/**
+ * 将 Markdown 渲染为适合 QQ 阅读的纯文本
+ * 标题、列表、引用、表格、链接转为文本形式，图片单独提取为图片段
+ */
+export function renderMarkdown(markdown: string): MarkdownPart[] {
+  const parts: MarkdownPart[] = [];
+  const lines: string[] = [];
+  const flush = () => {
+    const text = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) parts.push({ type: 'text', data: text });
+    lines.length = 0;
+  };
+
+  let inCode = false;
+
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    // 代码块内容原样保留，只去掉 ``` 标记
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      lines.push(rawLine);
+      continue;
+    }
+
+    const line = rawLine.replace(/<br\s*\/?>/gi, '\n').trimEnd();
+
+    // 表格：去掉分隔行，单元格以 " | " 分隔
+    if (/^\s*\|.*\|\s*$/.test(line)) {
+      const cells = line.trim().slice(1, -1).split('|').map(cell => cell.trim());
+      if (cells.every(cell => /^:?-{3,}:?$/.test(cell))) continue;
+      lines.push(cells.map(cell => renderInline(cell)).join(' | '));
+      continue;
+    }
+
+    // 独占一行的图片单独发送
+    const image = line.match(/^\s*!\[[^\]]*\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)\s*$/);
+    if (image) {
+      flush();
+      parts.push({ type: 'image', data: image[1] });
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      lines.push('──────────');
+      continue;
+    }
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const text = renderInline(heading[2]);
+      lines.push(heading[1].length <= 2 ? `【${text}】` : `▎${text}`);
+      continue;
+    }
+
+    const quote = line.match(/^\s*>\s?(.*)$/);
+    if (quote) {
+      lines.push(`┃ ${renderInline(quote[1])}`);
+      continue;
+    }
+
+    const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+    if (task) {
+      lines.push(`${indent(task[1])}${task[2] === ' ' ? '☐' : '☑'} ${renderInline(task[3])}`);
+      continue;
+    }
+
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    if (bullet) {
+      lines.push(`${indent(bullet[1])}• ${renderInline(bullet[2])}`);
+      continue;
+    }
+
+    const ordered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+    if (ordered) {
+      lines.push(`${indent(ordered[1])}${ordered[2]}. ${renderInline(ordered[3])}`);
+      continue;
+    }
+
+    lines.push(renderInline(line.trim()));
+  }
+  flush();
+
+  return parts;
+}
+
+/**
+ * 展开 template_markdown 段
+ * 模板内容在配置 markdownTemplates 中按模板 ID 定义，{{.参数名}} 替换为参数值；
+ * 未定义的模板按参数顺序逐行输出参数值
+ */
+export function renderTemplateMarkdown(data: unknown): MarkdownPart[] {
+  if (!data || typeof data !== 'object') return [];
+  const { template_id: templateId, para } = data as { template_id?: unknown; para?: unknown };
+  const params = normalizeParams(para);
+
+  const template = templateId !== undefined ? pluginState.config.markdownTemplates[String(templateId)] : undefined;
+  if (template === undefined) {
+    if (!missingTemplates.has(String(templateId))) {
+      missingTemplates.add(String(templateId));
+      pluginState.logger.debug(`[Markdown] 未定义模板 ${templateId}，按参数顺序输出`);
+    }
+    return renderMarkdown(Object.values(params).join('\n'));
+  }
+
+  const expanded = template.replace(/\{\{\s*\.?\s*([\w-]+)\s*\}\}/g, (_, key: string) => params[key] ?? '');
+  return renderMarkdown(expanded);
+}
+
+/**
+ * 模板参数兼容两种格式：
+ * - { key: value }
+ * - [{ key, values: [value, ...] }]（QQ 开放平台格式）
+ */
+function normalizeParams(para: unknown): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (Array.isArray(para)) {
+    for (const item of para) {
+      if (!item || typeof item !== 'object') continue;
+      const { key, values } = item as { key?: unknown; values?: unknown };
+      if (typeof key !== 'string') continue;
+      params[key] = Array.isArray(values) ? values.map(String).join('') : String(values ?? '');
+    }
+  } else if (para && typeof para === 'object') {
+    for (const [key, value] of Object.entries(para as Record<string, unknown>)) {
+      params[key] = Array.isArray(value) ? value.map(String).join('') : String(value ?? '');
+    }
+  }
+  return params;
+}
+
+/**
+ * 列表缩进：每两个空格（或一个 Tab）为一级
+ */
+function indent(whitespace: string): string {
+  const level = Math.floor(whitespace.replace(/\t/g, '  ').length / 2);
+  return '  '.repeat(level);
+}
+
+/**
+ * 处理行内语法：代码、图片、链接、强调与转义
+ */
+function renderInline(text: string): string {
+  // 行内代码先取出，避免其中的符号被当作强调处理
+  const codes: string[] = [];
+  let out = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codes.push(code);
+    return `\u0000${codes.length - 1}\u0000`;
+  });
+
+  out = out
+    .replace(/!\[([^\]]*)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, url: string) => `[图片${alt ? `: ${alt}` : ''}] ${url}`)
+    .replace(/\[([^\]]+)\]\(\s*(\S+?)(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) => (label === url ? url : `${label} (${url})`))
+    .replace(/<((?:https?|mqqapi):\/\/[^>\s]+)>/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\*)/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, '$1');
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i: string) => codes[Number(i)]);
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import { pluginState } from '../core/state';
+import { downloadFile } from './file-upload';
+
+/**
+ * 需要解析的媒体类型
+ */
+type MediaKind = 'image' | 'record';
+
+/**
+ * NapCat get_image / get_record 的返回值
+ */
+interface MediaInfo {
+  /** 本地缓存路径 */
+  file?: string;
+  url?: string;
+  base64?: string;
+}
+
+/** 媒体类型 → NapCat 查询接口 */
+const LOOKUP_ACTIONS = {
+  image: 'get_image',
+  record: 'get_record',
+} as const;
+
+/** 媒体类型的中文名，用于日志 */
+const KIND_LABELS: Record<MediaKind, string> = {
+  image: '图片',
+  record: '语音',
+};
+
+/**
+ * 单条消息剩余可转 base64 的数量，在一条消息的所有转换（含聊天记录、引用）之间共享
+ */
+export interface InlineBudget {
+  remaining: number;
+}
+
+/**
+ * 按 mediaInlineMaxCount 创建一条消息的转换额度
+ */
+export function createInlineBudget(): InlineBudget {
+  const maxCount = Math.max(pluginState.config.mediaInlineMaxCount || 0, 0);
+  return { remaining: maxCount > 0 ? maxCount : Infinity };
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\//i.test(value);
+}
+
+/**
+ * 解析收到的图片/语音，按配置转为 base64:// 以便另一台主机上的 GScore 读取
+ * - off：原样使用 url/file
+ * - auto：仅在不是 http(s) 地址（如本地文件名、路径）时转换
+ * - always：全部转换，适用于 GScore 无法访问 QQ 多媒体地址的部署
+ * 超过大小上限、超过本条消息的数量上限、下载超时或解析失败时退回原地址
+ */
+export async function resolveInboundMedia(
+  kind: MediaKind,
+  segData: Record<string, unknown> | undefined,
+  budget: InlineBudget = createInlineBudget(),
+): Promise<string> {
+  const original = String(segData?.url || segData?.file || '');
+  const mode = pluginState.config.mediaInlineMode;
+  if (mode === 'off' || !original || original.startsWith('base64://')) return original;
+  if (mode === 'auto' && isHttpUrl(original)) return original;
+  if (budget.remaining <= 0) {
+    pluginState.logger.debug(`[GScore] 本条消息转 base64 的数量已达上限，${KIND_LABELS[kind]}使用原地址`);
+    return original;
+  }
+  budget.remaining--;
+
+  const maxBytes = Math.max(pluginState.config.mediaInlineMaxSize || 0, 0) * 1024 * 1024;
+  try {
+    const content = await loadMedia(kind, segData, original, maxBytes);
+    pluginState.logger.debug(`[GScore] 已将${KIND_LABELS[kind]} ${original} 转为 base64 (${content.length} 字节)`);
+    return `base64://${content.toString('base64')}`;
+  } catch (err) {
+    pluginState.logger.warn(`[GScore] ${KIND_LABELS[kind]}转为 base64 失败，使用原地址: ${err}`);
+    return original;
+  }
+}
+
+/**
+ * 读取媒体内容：优先通过 NapCat 查询本地缓存，其次读取本地路径，最后下载
+ * @throws 超过 maxBytes（大于 0 时）或找不到可读取的来源时抛出
+ */
+async function loadMedia(
+  kind: MediaKind,
+  segData: Record<string, unknown> | undefined,
+  original: string,
+  maxBytes: number,
+): Promise<Buffer> {
+  let info: MediaInfo = {};
+  const file = segData?.file;
+  if (typeof file === 'string' && file && !isHttpUrl(file)) {
+    try {
+      const ctx = pluginState.ctx;
+      const params = kind === 'image' ? { file } : { file, out_format: 'mp3' };
+      info = (await ctx.actions.call(LOOKUP_ACTIONS[kind], params, ctx.adapterName, ctx.pluginManager.config) as MediaInfo) || {};
+    } catch (err) {
+      pluginState.logger.debug(`[GScore] 通过 ${LOOKUP_ACTIONS[kind]} 查询 ${file} 失败: ${err}`);
+    }
+  }
+
+  if (info.base64) {
+    const buffer = Buffer.from(info.base64, 'base64');
+    if (maxBytes > 0 && buffer.length > maxBytes) throw new Error(`文件大小 ${buffer.length} 字节超过限制`);
+    return buffer;
+  }
+
+  const localPath = [info.file, original].find(p => typeof p === 'string' && p && !isHttpUrl(p) && fs.existsSync(p));
+  if (localPath) {
+    const { size } = await fs.promises.stat(localPath);
+    if (maxBytes > 0 && size > maxBytes) throw new Error(`文件大小 ${size} 字节超过限制`);
+    return fs.promises.readFile(localPath);
+  }
+
+  const url = [info.url, original].find(isHttpUrl);
+  if (!url) throw new Error('找不到可读取的文件');
+  return downloadFile(url, maxBytes);
+}
@@ -0,0 +1,106 @@
+import type { OB11Segment } from './content-converter';
+
+/**
+ * 单条消息的大小限制，0 为不限制
+ */
+export interface MessageLimits {
+  maxChars: number;
+  maxImages: number;
+}
+
+/**
+ * 按字数和图片数上限将一条消息拆分为多条
+ * 文本优先在换行处拆分，单行超长时才按字数截断；各消息段保持原有顺序
+ * 字数按 Unicode 码点计算，截断时不会拆开 emoji 等代理对字符
+ */
+export function splitMessage(segments: OB11Segment[], limits: MessageLimits): OB11Segment[][] {
+  const maxChars = Math.max(limits.maxChars || 0, 0);
+  const maxImages = Math.max(limits.maxImages || 0, 0);
+  if (!maxChars && !maxImages) return [segments];
+
+  const pieces: OB11Segment[][] = [];
+  let current: OB11Segment[] = [];
+  let chars = 0;
+  let images = 0;
+
+  const flush = () => {
+    // 去掉拆分处多余的换行
+    const last = current[current.length - 1];
+    if (last?.type === 'text') {
+      const text = String(last.data.text ?? '').replace(/\n+$/, '');
+      if (text) {
+        current[current.length - 1] = { type: 'text', data: { text } };
+      } else {
+        current.pop();
+      }
+    }
+    if (current.length > 0) pieces.push(current);
+    current = [];
+    chars = 0;
+    images = 0;
+  };
+
+  const pushText = (text: string) => {
+    // 新消息开头的换行没有意义
+    if (current.length === 0) text = text.replace(/^\n+/, '');
+    if (!text) return;
+    current.push({ type: 'text', data: { text } });
+    chars += countChars(text);
+  };
+
+  for (const seg of segments) {
+    if (seg.type === 'image') {
+      if (maxImages && images >= maxImages) flush();
+      current.push(seg);
+      images++;
+      continue;
+    }
+
+    if (seg.type !== 'text' || !maxChars) {
+      current.push(seg);
+      continue;
+    }
+
+    const text = String(seg.data.text ?? '');
+    const length = countChars(text);
+    if (chars + length <= maxChars) {
+      current.push(seg);
+      chars += length;
+      continue;
+    }
+
+    // 逐行放入，放不下时开始新的一条
+    let buffer = '';
+    let bufferChars = 0;
+    for (const line of text.split(/(?<=\n)/)) {
+      const lineChars = countChars(line);
+      if (chars + bufferChars + lineChars <= maxChars) {
+        buffer += line;
+        bufferChars += lineChars;
+        continue;
+      }
+      pushText(buffer);
+      if (chars > 0) flush();
+
+      // 单行超过上限时按字数截断
+      const rest = Array.from(line);
+      while (rest.length > maxChars) {
+        pushText(rest.splice(0, maxChars).join(''));
+        flush();
+      }
+      buffer = rest.join('');
+      bufferChars = rest.length;
+    }
+    pushText(buffer);
+  }
+  flush();
+
+  return pieces.length > 0 ? pieces : [segments];
+}
+
+/**
+ * 按 Unicode 码点计算字数
+ */
+function countChars(text: string): number {
+  return Array.from(text).length;
+}
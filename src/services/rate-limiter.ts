@@ -0,0 +1,122 @@
+import { pluginState } from '../core/state';
+
+/** 限流维度 */
+export type RateLimitScope = 'user' | 'group' | 'global';
+
+/** 限流维度的显示名称 */
+export const RATE_LIMIT_SCOPE_LABELS: Record<RateLimitScope, string> = {
+  user: '用户',
+  group: '群',
+  global: '全局',
+};
+
+/**
+ * 令牌桶
+ */
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** 桶数量超过此值时清理已回满的桶 */
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * 转发限流器（令牌桶）
+ * 每个维度的容量为 "每分钟条数"，令牌按分钟均匀回填
+ */
+class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+  /** 冷却提示上次发送时间，按 "群号:QQ" 记录 */
+  private noticeTimes: Map<string, number> = new Map();
+  /** 各维度累计触发限流次数 */
+  private hits: Record<RateLimitScope, number> = { user: 0, group: 0, global: 0 };
+
+  /**
+   * 检查并消耗令牌
+   * 所有维度都有余量时才一并扣除，避免被某一维度拦截时仍消耗其他维度的令牌
+   * @returns 被拦截的维度，未被拦截时返回 null
+   */
+  consume(userId: string, groupId?: string): RateLimitScope | null {
+    const config = pluginState.config;
+    const checks: Array<{ scope: RateLimitScope; key: string; perMinute: number }> = [
+      { scope: 'user', key: `user:${userId}`, perMinute: config.rateLimitUser },
+      { scope: 'global', key: 'global', perMinute: config.rateLimitGlobal },
+    ];
+    if (groupId) {
+      checks.splice(1, 0, { scope: 'group', key: `group:${groupId}`, perMinute: config.rateLimitGroup });
+    }
+
+    const now = Date.now();
+    const active = checks.filter(check => check.perMinute > 0);
+    for (const check of active) {
+      if (this.refill(check.key, check.perMinute, now).tokens < 1) {
+        this.hits[check.scope]++;
+        return check.scope;
+      }
+    }
+    for (const check of active) {
+      this.buckets.get(check.key)!.tokens -= 1;
+    }
+
+    if (this.buckets.size > PRUNE_THRESHOLD) this.prune(now);
+    return null;
+  }
+
+  /**
+   * 是否应发送冷却提示（同一用户在同一会话内按提示间隔节流）
+   */
+  shouldNotify(userId: string, groupId?: string): boolean {
+    const interval = Math.max(pluginState.config.rateLimitNoticeInterval || 0, 0) * 1000;
+    const key = `${groupId || 'private'}:${userId}`;
+    const now = Date.now();
+    const last = this.noticeTimes.get(key) ?? 0;
+    if (now - last < interval) return false;
+
+    this.noticeTimes.set(key, now);
+    return true;
+  }
+
+  /** 获取各维度累计触发限流次数 */
+  getHits(): Record<RateLimitScope, number> {
+    return { ...this.hits };
+  }
+
+  /** 清空所有状态 */
+  reset(): void {
+    this.buckets.clear();
+    this.noticeTimes.clear();
+    this.hits = { user: 0, group: 0, global: 0 };
+  }
+
+  /**
+   * 按经过的时间回填令牌
+   */
+  private refill(key: string, perMinute: number, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: perMinute, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(perMinute, bucket.tokens + elapsed * perMinute / 60000);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /**
+   * 清理一分钟内没有活动的桶（此时已回满，与新建等价）
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 60000) this.buckets.delete(key);
+    }
+    for (const [key, time] of this.noticeTimes) {
+      if (now - time > 60000 * 60) this.noticeTimes.delete(key);
+    }
+  }
+}
+
+/** 导出全局单例 */
+export const rateLimiter = new RateLimiter();
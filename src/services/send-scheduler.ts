@@ -0,0 +1,206 @@
+import { pluginState } from '../core/state';
+
+/**
+ * 不可重试的发送错误
+ * 文件超过大小限制、目标不支持该消息类型等重试也不会成功的情况，调度器直接放弃而不重试
+ */
+export class PermanentSendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentSendError';
+  }
+}
+
+/**
+ * 发送函数
+ * @param lastAttempt 是否为最后一次尝试（失败后不再重试），可据此在放弃前改用降级内容发送
+ */
+export type SendTaskRun = (lastAttempt: boolean) => Promise<void>;
+
+/**
+ * 发送任务
+ */
+interface SendTask {
+  target: string;
+  run: SendTaskRun;
+  /** 已失败次数 */
+  failures: number;
+  enqueuedAt: number;
+  /** 重试时最早可执行的时间 */
+  notBefore: number;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * 发送队列统计
+ */
+export interface SendSchedulerStats {
+  /** 等待发送的任务数 */
+  pending: number;
+  /** 正在发送的任务数 */
+  inFlight: number;
+  sent: number;
+  failed: number;
+  retried: number;
+  /** 最近一次发送的排队耗时（毫秒） */
+  lastWait: number;
+}
+
+/**
+ * 发送调度器
+ *
+ * 将 GScore 回复的发送排队执行，防止短时间大量发送触发 QQ 风控：
+ * - 全局每秒发送条数限制
+ * - 同一目标串行发送，且两次发送之间保持最小间隔
+ * - 失败后按指数退避重试（PermanentSendError 除外）
+ */
+class SendScheduler {
+  /** 按目标（如 group:123）划分的 FIFO 队列 */
+  private queues: Map<string, SendTask[]> = new Map();
+  /** 正在发送的目标 */
+  private busyTargets: Set<string> = new Set();
+  /** 各目标下次允许发送的时间 */
+  private targetNextAt: Map<string, number> = new Map();
+  /** 最近一秒内的发送时间，用于全局限速 */
+  private recentSends: number[] = [];
+  private pumpTimer: NodeJS.Timeout | null = null;
+  private stats = { sent: 0, failed: 0, retried: 0, lastWait: 0 };
+  /** 每次 clear() 递增，用于识别清空前已开始执行的任务 */
+  private generation = 0;
+
+  /**
+   * 加入发送队列
+   * @param target 目标标识，同一目标的任务按加入顺序串行执行
+   * @returns 发送成功时 resolve，重试耗尽或遇到 PermanentSendError 时 reject 最后一次错误
+   */
+  schedule(target: string, run: SendTaskRun): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const now = Date.now();
+      const queue = this.queues.get(target) ?? [];
+      queue.push({ target, run, failures: 0, enqueuedAt: now, notBefore: now, resolve, reject });
+      this.queues.set(target, queue);
+      this.pump();
+    });
+  }
+
+  getStats(): SendSchedulerStats {
+    let pending = 0;
+    for (const queue of this.queues.values()) pending += queue.length;
+    return { pending, inFlight: this.busyTargets.size, ...this.stats };
+  }
+
+  /**
+   * 清空队列，未发送的任务全部 reject
+   * 正在发送的任务完成后不再重试，直接 reject
+   */
+  clear(): void {
+    this.generation++;
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+    for (const queue of this.queues.values()) {
+      for (const task of queue) task.reject(new Error('发送队列已清空'));
+    }
+    this.queues.clear();
+    this.busyTargets.clear();
+    this.targetNextAt.clear();
+    this.recentSends = [];
+    this.stats = { sent: 0, failed: 0, retried: 0, lastWait: 0 };
+  }
+
+  /**
+   * 调度可执行的任务，无法立即执行时在最早可执行的时间再次调度
+   */
+  private pump(): void {
+    if (this.pumpTimer) {
+      clearTimeout(this.pumpTimer);
+      this.pumpTimer = null;
+    }
+
+    const now = Date.now();
+    const ratePerSecond = pluginState.config.sendRateLimit ?? 0;
+    let wakeAt = Infinity;
+
+    for (const [target, queue] of this.queues) {
+      if (queue.length === 0) {
+        this.queues.delete(target);
+        if ((this.targetNextAt.get(target) ?? 0) <= now) this.targetNextAt.delete(target);
+        continue;
+      }
+      if (this.busyTargets.has(target)) continue;
+
+      const task = queue[0];
+      const readyAt = Math.max(task.notBefore, this.targetNextAt.get(target) ?? 0);
+      if (readyAt > now) {
+        wakeAt = Math.min(wakeAt, readyAt);
+        continue;
+      }
+
+      if (ratePerSecond > 0) {
+        this.recentSends = this.recentSends.filter(time => now - time < 1000);
+        if (this.recentSends.length >= ratePerSecond) {
+          wakeAt = Math.min(wakeAt, this.recentSends[0] + 1000);
+          break;
+        }
+        this.recentSends.push(now);
+      }
+
+      queue.shift();
+      const generation = this.generation;
+      this.execute(task).catch(error => {
+        // 插件卸载后上下文已释放，无法再记录日志
+        if (generation === this.generation) pluginState.logger.error(`[发送队列] 处理 ${task.target} 的发送任务时出错:`, error);
+      });
+    }
+
+    if (wakeAt !== Infinity) {
+      this.pumpTimer = setTimeout(() => this.pump(), Math.max(wakeAt - Date.now(), 0));
+    }
+  }
+
+  private async execute(task: SendTask): Promise<void> {
+    const generation = this.generation;
+    const maxRetries = Math.max(pluginState.config.sendMaxRetries ?? 0, 0);
+    this.busyTargets.add(task.target);
+    try {
+      await task.run(task.failures >= maxRetries);
+      if (generation === this.generation) {
+        this.stats.sent++;
+        this.stats.lastWait = Date.now() - task.enqueuedAt;
+      }
+      task.resolve();
+    } catch (error) {
+      // 发送期间队列已被清空，不再放回队列重试
+      if (generation !== this.generation) {
+        task.reject(error);
+        return;
+      }
+      task.failures++;
+      if (!(error instanceof PermanentSendError) && task.failures <= maxRetries) {
+        const delay = Math.max(pluginState.config.sendRetryDelay || 0, 0) * Math.pow(2, task.failures - 1);
+        this.stats.retried++;
+        task.notBefore = Date.now() + delay;
+        pluginState.logger.warn(`[发送队列] 发送到 ${task.target} 失败，${delay}ms 后重试 (${task.failures}/${maxRetries}):`, error);
+        // 重试任务放回队首，保证同一目标的顺序
+        const queue = this.queues.get(task.target) ?? [];
+        queue.unshift(task);
+        this.queues.set(task.target, queue);
+      } else {
+        this.stats.failed++;
+        task.reject(error);
+      }
+    } finally {
+      if (generation === this.generation) {
+        this.busyTargets.delete(task.target);
+        const interval = Math.max(pluginState.config.sendTargetInterval || 0, 0);
+        this.targetNextAt.set(task.target, Date.now() + interval);
+        this.pump();
+      }
+    }
+  }
+}
+
+/** 导出全局单例 */
+export const sendScheduler = new SendScheduler();
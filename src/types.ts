@@ -19,28 +19,257 @@ export interface PluginConfig {
     commandPrefix: string;
     /** 主人QQ，设置后仅该用户可用群内命令，留空则默认群主/管理员可用 */
     masterQQ?: string;
+    /** 主人发送给 GScore 的权限等级（user_pm） */
+    pmMaster: number;
+    /** 群主发送给 GScore 的权限等级 */
+    pmOwner: number;
+    /** 群管理员发送给 GScore 的权限等级 */
+    pmAdmin: number;
+    /** 普通用户发送给 GScore 的权限等级 */
+    pmMember: number;
+    /** 按用户覆盖的权限等级（QQ号 → user_pm），优先级最高 */
+    userPmOverrides: Record<string, number>;
     /** GScore 连接地址 */
     gscoreUrl: string;
     /** GScore 连接 Token */
     gscoreToken: string;
     /** GScore 是否启用 */
     gscoreEnable: boolean;
-    /** 重连间隔（毫秒） */
+    /** 重连基础间隔（毫秒），每次失败后指数增长 */
     reconnectInterval: number;
-    /** 最大重连次数 */
+    /** 重连间隔上限（毫秒） */
+    reconnectMaxDelay: number;
+    /** 重连间隔随机抖动比例（0~1） */
+    reconnectJitter: number;
+    /** 最大重连次数，达到后进入熔断状态 */
     maxReconnectAttempts: number;
+    /** 熔断状态下的探测间隔（毫秒） */
+    circuitProbeInterval: number;
+    /** 心跳间隔（毫秒），0 为关闭心跳检测 */
+    heartbeatInterval: number;
+    /** 连续未收到 pong 的次数达到此值时判定连接失效 */
+    heartbeatMaxMissed: number;
+    /** 断线期间缓存的最大消息数，0 为不缓存 */
+    offlineQueueSize: number;
+    /** 断线缓存消息的最大保留时长（毫秒），超时的消息在重连后丢弃 */
+    offlineQueueMaxAge: number;
+    /** 额外的 GScore 连接（默认连接由 gscoreUrl/gscoreToken 组成，名称为 default） */
+    gscoreConnections: GScoreConnectionConfig[];
+    /** 群消息默认使用的连接名称，留空则使用 default */
+    defaultConnection?: string;
+    /** 私聊消息使用的连接名称，留空则使用 defaultConnection */
+    privateConnection?: string;
+    /** 群默认模式：optout 默认启用（可单独关闭），optin 默认不启用（需主人开启） */
+    groupMode: GroupMode;
+    /** optin 模式下未开通群的处理方式 */
+    unapprovedGroupAction: UnapprovedGroupAction;
+    /** 未开通群的提示文本 */
+    unapprovedGroupNotice: string;
     /** 按群的单独配置 */
     groupConfigs: Record<string, GroupConfig>;
-    /** 用户黑名单（QQ号列表），拉黑后不转发该用户消息到 GScore */
-    blacklist: string[];
+    /** 全局用户黑名单（仅主人可管理），拉黑后在所有群和私聊中都不转发该用户消息 */
+    blacklist: BlacklistEntry[];
+    /** 是否将 GScore 的文件消息上传为群文件/私聊文件（关闭则仅发送文件名） */
+    fileUploadEnable: boolean;
+    /** 上传文件的大小上限（MB），0 为不限制 */
+    fileMaxSize: number;
+    /** 下载文件的超时时间（秒），0 为不限制 */
+    fileDownloadTimeout: number;
+    /** 触发前缀（英文逗号分隔），留空且未设置正则时转发所有消息 */
+    triggerPrefixes: string;
+    /** 触发正则，与触发前缀任一匹配即转发 */
+    triggerRegex: string;
+    /** 群聊中是否必须 @机器人 才转发 */
+    requireMention: boolean;
+    /** 是否启用转发限流 */
+    rateLimitEnable: boolean;
+    /** 每个用户每分钟最多转发条数，0 为不限制 */
+    rateLimitUser: number;
+    /** 每个群每分钟最多转发条数，0 为不限制 */
+    rateLimitGroup: number;
+    /** 全局每分钟最多转发条数，0 为不限制 */
+    rateLimitGlobal: number;
+    /** 触发限流时的提示文本，留空则不提示 */
+    rateLimitNotice: string;
+    /** 同一用户冷却提示的最小间隔（秒） */
+    rateLimitNoticeInterval: number;
+    /** 全局每秒最多发送条数，0 为不限制 */
+    sendRateLimit: number;
+    /** 同一目标两次发送之间的最小间隔（毫秒） */
+    sendTargetInterval: number;
+    /** 发送失败后的最大重试次数 */
+    sendMaxRetries: number;
+    /** 首次重试的等待时间（毫秒），之后每次翻倍 */
+    sendRetryDelay: number;
+    /** 单条消息的最大字数，超出时在换行处拆分，0 为不限制 */
+    sendMaxChars: number;
+    /** 单条消息的最大图片数，0 为不限制 */
+    sendMaxImages: number;
+    /** 超出单条消息上限时的处理方式 */
+    oversizeMode: OversizeMode;
+    /** 回复时自动引用触发消息的方式 */
+    replyQuoteMode: ReplyQuoteMode;
+    /** 合并转发节点显示的 QQ 号，留空使用机器人自身 */
+    forwardNodeUserId: string;
+    /** 合并转发节点显示的昵称，留空使用机器人昵称 */
+    forwardNodeNickname: string;
+    /** 展开收到的合并转发（聊天记录）的最大嵌套层数，0 为不展开 */
+    forwardExpandDepth: number;
+    /** 收到的图片/语音转为 base64 发送给 GScore 的方式 */
+    mediaInlineMode: MediaInlineMode;
+    /** 转为 base64 的文件大小上限（MB），超过则仍发送原地址，0 为不限制 */
+    mediaInlineMaxSize: number;
+    /** 每条消息（含展开的聊天记录与引用）最多转为 base64 的图片/语音数，超出部分仍发送原地址，0 为不限制 */
+    mediaInlineMaxCount: number;
+    /** Markdown 模板（模板 ID → 模板内容），用于展开 template_markdown */
+    markdownTemplates: Record<string, string>;
+    /** 是否将 GScore 按钮渲染为序号菜单 */
+    buttonMenuEnable: boolean;
+    /** 序号菜单有效时长（秒），期间回复序号会转换为按钮命令 */
+    buttonMenuTimeout: number;
+    /** 是否转发戳机器人的戳一戳 */
+    forwardPoke: boolean;
+    /** 是否转发群成员增加通知 */
+    forwardGroupIncrease: boolean;
+    /** 是否转发群成员减少通知 */
+    forwardGroupDecrease: boolean;
+    /** 是否转发好友添加通知 */
+    forwardFriendAdd: boolean;
+    /** 是否转发好友申请 */
+    forwardFriendRequest: boolean;
+    /** 是否转发加群申请与入群邀请 */
+    forwardGroupRequest: boolean;
+    /** 是否启用告警通知 */
+    alertEnable: boolean;
+    /** 告警发送到的群号，留空则私聊所有主人 */
+    alertGroupId: string;
+    /** 连接断开多久（秒）仍未恢复才告警 */
+    alertDisconnectGrace: number;
+    /** 达到此级别的 GScore 日志会告警 */
+    alertLogLevel: AlertLogLevel;
+    /** 同一告警的静默期（秒），期间重复的告警只计数不发送 */
+    alertQuietPeriod: number;
+    /** 是否记录使用统计 */
+    statsEnable: boolean;
+    /** 统计数据保留天数 */
+    statsRetentionDays: number;
+    /** 转发后超过此时间（秒）未收到回复记为超时，0 为不检查 */
+    latencyReplyTimeout: number;
     /** 自定义图片外显 */
     customImageSummary?: string;
 }
 
+/**
+ * 群默认模式
+ */
+export type GroupMode = 'optout' | 'optin';
+
+/**
+ * 未开通群的处理方式
+ * none: 忽略；notice: 发送一次提示；leave: 提示后退群
+ */
+export type UnapprovedGroupAction = 'none' | 'notice' | 'leave';
+
+/**
+ * 自动引用方式
+ * off: 不处理；reply: 引用触发消息；at: @触发者；both: 引用并 @
+ */
+export type ReplyQuoteMode = 'off' | 'reply' | 'at' | 'both';
+
+/**
+ * 超长消息的处理方式
+ * split: 拆分为多条消息依次发送；forward: 折叠为一条合并转发
+ */
+export type OversizeMode = 'split' | 'forward';
+
+/**
+ * 收到的图片/语音转为 base64 的方式
+ * off: 不转换；auto: 仅转换非 http(s) 地址（本地文件名、路径）；always: 全部转换
+ */
+export type MediaInlineMode = 'off' | 'auto' | 'always';
+
+/**
+ * 触发告警的 GScore 日志级别
+ * off: 不转发日志；其余为最低级别
+ */
+export type AlertLogLevel = 'off' | 'info' | 'warning' | 'error';
+
+/**
+ * 黑名单条目
+ */
+export interface BlacklistEntry {
+    /** 被拉黑的 QQ 号 */
+    userId: string;
+    /** 操作人 QQ 号 */
+    operator?: string;
+    /** 拉黑原因 */
+    reason?: string;
+    /** 拉黑时间戳（旧版字符串配置迁移而来时为 0） */
+    createdAt: number;
+    /** 到期时间戳，不填为永久 */
+    expiresAt?: number;
+}
+
+/**
+ * GScore 连接配置
+ */
+export interface GScoreConnectionConfig {
+    /** 连接名称（唯一），用于群/私聊路由 */
+    name: string;
+    /** 是否启用此连接 */
+    enabled: boolean;
+    /** GScore WebSocket 地址 */
+    url: string;
+    /** 连接鉴权 Token */
+    token: string;
+    /** 重连间隔（毫秒），不填则使用全局配置 */
+    reconnectInterval?: number;
+    /** 最大重连次数，不填则使用全局配置 */
+    maxReconnectAttempts?: number;
+}
+
 /**
  * 群配置
  */
 export interface GroupConfig {
     /** 是否启用此群的功能 */
     enabled?: boolean;
+    /** 此群消息转发使用的连接名称，不填则使用 defaultConnection */
+    connection?: string;
+    /** 此群的触发前缀，不填则使用全局配置 */
+    triggerPrefixes?: string;
+    /** 此群的触发正则，不填则使用全局配置 */
+    triggerRegex?: string;
+    /** 此群是否必须 @机器人 才转发，不填则使用全局配置 */
+    requireMention?: boolean;
+    /** 此群回复时自动引用的方式，不填则使用全局配置 */
+    replyQuoteMode?: ReplyQuoteMode;
+    /** 此群合并转发节点显示的 QQ 号，不填则使用全局配置 */
+    forwardNodeUserId?: string;
+    /** 此群合并转发节点显示的昵称，不填则使用全局配置 */
+    forwardNodeNickname?: string;
+    /** 此群的黑名单（群主/管理员可管理），仅在此群内生效 */
+    blacklist?: BlacklistEntry[];
+}
+
+// ==================== GScore 协议 ====================
+
+/**
+ * GsCore Message 结构（早柚核心消息单元）
+ */
+export interface GsCoreMessage {
+    type: string | null;
+    data: unknown;
+}
+
+/**
+ * GsCore MessageSend 结构（早柚核心发送的消息）
+ */
+export interface GsCoreMessageSend {
+    bot_id: string;
+    bot_self_id: string;
+    msg_id: string;
+    target_type: string | null;
+    target_id: string | null;
+    content: GsCoreMessage[] | null;
 }